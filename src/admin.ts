@@ -0,0 +1,224 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from './config';
+import { contextManager, BanRecord, UserSession } from './utils/context';
+import { logger } from './utils/logger';
+import { getUserTimezone } from './utils/time';
+import { formatDays, getSobrietyStatus } from './sobriety';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USERS_PAGE_SIZE = 20;
+
+interface FeatureFlag {
+  label: string;
+  get: () => boolean;
+  set: (value: boolean) => void;
+}
+
+// Switches an admin may flip without a restart; changes last until the process exits
+export const FEATURE_FLAGS: Record<string, FeatureFlag> = {
+  streaming: {
+    label: 'Потоковые ответы',
+    get: () => config.bot.enableStreaming,
+    set: (value) => { config.bot.enableStreaming = value; },
+  },
+  memory: {
+    label: 'Память о пользователе',
+    get: () => config.bot.enableUserMemory,
+    set: (value) => { config.bot.enableUserMemory = value; },
+  },
+  images: {
+    label: 'Распознавание изображений',
+    get: () => config.bot.enableImageRecognition,
+    set: (value) => { config.bot.enableImageRecognition = value; },
+  },
+  continue: {
+    label: 'Кнопка «Продолжить»',
+    get: () => config.bot.enableContinueButton,
+    set: (value) => { config.bot.enableContinueButton = value; },
+  },
+  summary: {
+    label: 'Сжатие истории',
+    get: () => config.summary.enabled,
+    set: (value) => { config.summary.enabled = value; },
+  },
+  classifier: {
+    label: 'Классификатор кризисных сигналов',
+    get: () => config.safety.useClassifier,
+    set: (value) => { config.safety.useClassifier = value; },
+  },
+  moodtags: {
+    label: 'Разметка эмоций',
+    get: () => config.mood.autoTag,
+    set: (value) => { config.mood.autoTag = value; },
+  },
+};
+
+export type BroadcastFilter =
+  | { kind: 'all' }
+  | { kind: 'active'; days: number }
+  | { kind: 'sobriety' };
+
+// all, active:<days> or sobriety
+export function parseBroadcastFilter(input: string): BroadcastFilter | null {
+  if (input === 'all' || input === 'sobriety') {
+    return { kind: input };
+  }
+  const match = /^active:(\d+)$/.exec(input);
+  return match ? { kind: 'active', days: Number(match[1]) } : null;
+}
+
+// Broadcasts only go to private chats: a private chat's id is the user's id
+const isPrivateSession = (session: UserSession): boolean => session.userId !== 0 && session.chatId === session.userId;
+
+const describeName = (session: UserSession): string => {
+  const name = [session.firstName, session.lastName].filter(Boolean).join(' ');
+  return [session.username && `@${session.username}`, name].filter(Boolean).join(' ') || 'без имени';
+};
+
+const formatDateTime = (date: number): string => new Date(date).toLocaleString('ru-RU');
+
+const countMessages = (session: UserSession): number =>
+  session.history.filter((message) => message.role !== 'system').length;
+
+class AdminService {
+  isAdmin(userId: number): boolean {
+    return config.bot.adminIds.includes(userId);
+  }
+
+  async isBanned(userId: number): Promise<boolean> {
+    // Admins can never lock themselves out
+    if (this.isAdmin(userId)) return false;
+    return (await contextManager.getBan(userId)) !== null;
+  }
+
+  async ban(userId: number, bannedBy: number, reason?: string): Promise<BanRecord> {
+    const record: BanRecord = { userId, bannedBy, bannedAt: Date.now(), ...(reason && { reason }) };
+    await contextManager.saveBan(record);
+    logger.warn('User banned', { userId, bannedBy, reason });
+    return record;
+  }
+
+  // Returns false when the user was not banned
+  async unban(userId: number, unbannedBy: number): Promise<boolean> {
+    if (!(await contextManager.getBan(userId))) return false;
+
+    await contextManager.deleteBan(userId);
+    logger.warn('User unbanned', { userId, unbannedBy });
+    return true;
+  }
+
+  async formatBans(): Promise<string> {
+    const bans = await contextManager.listBans();
+    if (bans.length === 0) {
+      return 'Заблокированных пользователей нет.';
+    }
+    const lines = bans
+      .sort((a, b) => b.bannedAt - a.bannedAt)
+      .map((ban) => `• ${ban.userId} — ${formatDateTime(ban.bannedAt)}${ban.reason ? `, «${ban.reason}»` : ''}`);
+    return ['🚫 Заблокированы:', ...lines].join('\n');
+  }
+
+  // One line per session, most recently active first
+  async formatUserList(page: number): Promise<string> {
+    const sessions = (await contextManager.listSessions())
+      .filter((session) => session.userId !== 0)
+      .sort((a, b) => b.lastActivity - a.lastActivity);
+    const pageCount = Math.max(1, Math.ceil(sessions.length / USERS_PAGE_SIZE));
+    const current = Math.min(Math.max(page, 1), pageCount);
+
+    const lines = sessions
+      .slice((current - 1) * USERS_PAGE_SIZE, current * USERS_PAGE_SIZE)
+      .map((session) => {
+        const place = isPrivateSession(session) ? '' : ` (чат ${session.chatId})`;
+        return `• ${session.userId} ${describeName(session)}${place} — ${countMessages(session)} сообщ., ${formatDateTime(session.lastActivity)}`;
+      });
+
+    return [
+      `👥 Пользователи: ${sessions.length} (стр. ${current}/${pageCount})`,
+      '',
+      ...(lines.length > 0 ? lines : ['Пока никого нет.']),
+    ].join('\n');
+  }
+
+  async formatUser(userId: number): Promise<string | null> {
+    const sessions = (await contextManager.listSessions()).filter((session) => session.userId === userId);
+    if (sessions.length === 0) return null;
+
+    const ban = await contextManager.getBan(userId);
+    const lines = [`👤 ${userId} ${describeName(sessions[0])}`];
+    if (ban) {
+      lines.push(`🚫 Заблокирован ${formatDateTime(ban.bannedAt)}${ban.reason ? `: ${ban.reason}` : ''}`);
+    }
+
+    for (const session of sessions) {
+      lines.push(
+        '',
+        `Сессия ${session.sessionKey}`,
+        `Создана: ${formatDateTime(session.createdAt)}, активность: ${formatDateTime(session.lastActivity)}`,
+        `Сообщений в истории: ${countMessages(session)}${session.summary ? `, в сводке: ${session.summary.messageCount}` : ''}`,
+        `Записей памяти: ${session.userMemory.items?.length || 0}`
+      );
+      if (session.sobriety) {
+        const status = getSobrietyStatus(session.sobriety, getUserTimezone(session));
+        lines.push(`Трезвость: ${formatDays(status.streakDays)}, срывов: ${status.relapseCount}`);
+      }
+      if (session.schedule?.reminders.length) {
+        lines.push(`Напоминаний: ${session.schedule.reminders.length} (${session.schedule.timezone})`);
+      }
+      if (session.moodJournal?.length) {
+        lines.push(`Записей в дневнике настроения: ${session.moodJournal.length}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  async formatSession(sessionKey: string, limit: number): Promise<string | null> {
+    const session = await contextManager.getSession(sessionKey);
+    if (!session) return null;
+
+    const messages = session.history.filter((message) => message.role !== 'system').slice(-limit);
+    const lines = messages.map((message) => {
+      const author = message.role === 'user' ? (message.authorName || 'Пользователь') : 'Бот';
+      return `[${formatDateTime(message.timestamp)}] ${author}: ${message.content}`;
+    });
+
+    return [
+      `💬 ${sessionKey}: последние ${messages.length} из ${countMessages(session)}`,
+      ...(session.summary ? ['', `Сводка: ${session.summary.text}`] : []),
+      '',
+      ...lines,
+    ].join('\n');
+  }
+
+  // Sends one message at a time so a large audience stays under Telegram's rate limits
+  async broadcast(bot: TelegramBot, text: string, filter: BroadcastFilter): Promise<{ sent: number; failed: number }> {
+    const bannedIds = new Set((await contextManager.listBans()).map((ban) => ban.userId));
+    const since = filter.kind === 'active' ? Date.now() - filter.days * DAY_MS : 0;
+    const recipients = (await contextManager.listSessions()).filter((session) =>
+      isPrivateSession(session)
+      && !bannedIds.has(session.userId)
+      && session.lastActivity >= since
+      && (filter.kind !== 'sobriety' || !!session.sobriety)
+    );
+
+    let sent = 0;
+    let failed = 0;
+    for (const session of recipients) {
+      try {
+        await bot.sendMessage(session.chatId, text);
+        sent++;
+      } catch (error) {
+        // Usually a user who blocked the bot
+        failed++;
+        logger.warn('Broadcast delivery failed', { chatId: session.chatId, error: (error as Error).message });
+      }
+      await new Promise((resolve) => setTimeout(resolve, config.bot.broadcastIntervalMs));
+    }
+
+    logger.info('Broadcast finished', { filter, sent, failed });
+    return { sent, failed };
+  }
+}
+
+export const adminService = new AdminService();
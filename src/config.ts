@@ -1,7 +1,24 @@
 import dotenv from 'dotenv';
+import { parseEncryptionKey } from './utils/encryption';
 
 dotenv.config();
 
+export const SAFETY_CATEGORIES = ['harassment', 'hate_speech', 'sexually_explicit', 'dangerous_content'] as const;
+export const SAFETY_THRESHOLDS = ['BLOCK_NONE', 'BLOCK_ONLY_HIGH', 'BLOCK_MEDIUM_AND_ABOVE', 'BLOCK_LOW_AND_ABOVE'] as const;
+export type SafetyCategory = typeof SAFETY_CATEGORIES[number];
+export type SafetyThreshold = typeof SAFETY_THRESHOLDS[number];
+
+// One entry of the /persona picker
+export interface PersonaDefinition {
+  // Stored in the user's settings and used in callback data, so keep it short and stable
+  id: string;
+  title: string;
+  systemPrompt: string;
+  tone: string;
+  // Sent when the persona is picked
+  greeting: string;
+}
+
 export interface BotConfig {
   telegram: {
     token: string;
@@ -11,22 +28,144 @@ export interface BotConfig {
     model: string;
     maxTokens: number;
     temperature: number;
+    // Tried in order when the primary model keeps failing
+    fallbackModels: string[];
+    requestTimeoutMs: number;
+    maxRetries: number;
+    retryBaseDelayMs: number;
+    retryMaxDelayMs: number;
+    // Block threshold per harm category; categories left unset keep the API default
+    safetySettings: Partial<Record<SafetyCategory, SafetyThreshold>>;
   };
   bot: {
-    maxHistoryLength: number;
     maxResponseLength: number;
+    enableContinueButton: boolean;
     enableImageRecognition: boolean;
     enableVoiceRecognition: boolean;
     enableMarkdown: boolean;
+    parseMode: 'HTML' | 'MarkdownV2';
+    enableStreaming: boolean;
+    streamEditIntervalMs: number;
     enableUserMemory: boolean;
+    groupMode: 'shared' | 'individual';
+    groupReplyMode: 'mention' | 'always';
+    adminIds: number[];
+    broadcastIntervalMs: number;
+  };
+  rateLimit: {
+    enabled: boolean;
+    // Messages a user may send in a row before throttling starts
+    burst: number;
+    perMinute: number;
+    maxConcurrentRequests: number;
+  };
+  usage: {
+    // Tokens per user per day, 0 for no limit
+    dailyTokenBudget: number;
+    // USD per million tokens, by model
+    pricing: Record<string, { input: number; output: number }>;
+  };
+  memory: {
+    extractEveryMessages: number;
+    maxItems: number;
+  };
+  summary: {
+    enabled: boolean;
+    minRecentMessages: number;
+  };
+  personas: {
+    catalogue: PersonaDefinition[];
+    // Free-text /persona <роль> on top of the catalogue
+    allowCustom: boolean;
+    maxCustomLength: number;
+  };
+  prompt: {
+    // Empty means prompt.json next to the running code (src/, or dist/ after the build)
+    path: string;
+    // Re-read the file when it changes; an invalid edit keeps the previous prompt
+    hotReload: boolean;
+  };
+  safety: {
+    enabled: boolean;
+    useClassifier: boolean;
+    classifierTimeoutMs: number;
+    crisisMessage: string;
+    resources: string[];
+    operatorChatIds: number[];
+    // Quote the message in operator alerts; off by default, alerts carry only level, categories and user
+    alertIncludesMessage: boolean;
+  };
+  scheduler: {
+    enabled: boolean;
+    defaultTimezone: string;
+    quietHoursStart: string;
+    quietHoursEnd: string;
+    maxRemindersPerUser: number;
+    cleanupCron: string;
+  };
+  mood: {
+    autoTag: boolean;
+    maxEntries: number;
+  };
+  voice: {
+    sttProvider: 'gemini' | 'command';
+    sttCommand: string;
+    ttsProvider: 'none' | 'command';
+    ttsCommand: string;
+    maxDurationSec: number;
+    commandTimeoutMs: number;
+  };
+  server: {
+    // HTTP port for the webhook and health checks; 8080 with a webhook, otherwise 0 (no server)
+    // unless PORT is set, so a polling bot opens no port it wasn't asked to
+    port: number;
+    // Public base URL; when set, updates arrive by webhook instead of polling (except in development)
+    webhookUrl: string;
+    webhookSecret: string;
+  };
+  storage: {
+    driver: 'json' | 'sqlite';
+    jsonPath: string;
+    jsonFlushDebounceMs: number;
+    sqlitePath: string;
+    // 32-byte key (base64 or hex) for conversation text and user memory; empty keeps them in plaintext
+    encryptionKey: string;
+    // Keys being rotated out: still read, never written
+    previousEncryptionKeys: string[];
   };
   logging: {
     level: string;
     enableFileLogging: boolean;
     logFile: string;
+    // Message bodies are logged as length and hash only
+    redactMessages: boolean;
   };
 }
 
+// GEMINI_SAFETY_HARASSMENT=BLOCK_ONLY_HIGH and so on; checked by validateConfig
+function parseSafetySettings(): BotConfig['gemini']['safetySettings'] {
+  const settings: BotConfig['gemini']['safetySettings'] = {};
+  for (const category of SAFETY_CATEGORIES) {
+    const value = process.env[`GEMINI_SAFETY_${category.toUpperCase()}`]?.trim().toUpperCase();
+    if (value) {
+      settings[category] = value as SafetyThreshold;
+    }
+  }
+  return settings;
+}
+
+// model=input/output,... in USD per million tokens
+function parsePricing(value: string): BotConfig['usage']['pricing'] {
+  const pricing: BotConfig['usage']['pricing'] = {};
+  for (const entry of value.split(',')) {
+    const match = /^\s*([^=\s]+)\s*=\s*([\d.]+)\s*\/\s*([\d.]+)\s*$/.exec(entry);
+    if (match) {
+      pricing[match[1]] = { input: parseFloat(match[2]), output: parseFloat(match[3]) };
+    }
+  }
+  return pricing;
+}
+
 export const config: BotConfig = {
   telegram: {
     token: process.env.TG_TOKEN || '',
@@ -36,19 +175,141 @@ export const config: BotConfig = {
     model: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
     maxTokens: parseInt(process.env.GEMINI_MAX_TOKENS || '4000'),
     temperature: parseFloat(process.env.GEMINI_TEMPERATURE || '0.7'),
+    fallbackModels: (process.env.GEMINI_FALLBACK_MODELS || '')
+      .split(',')
+      .map((model) => model.trim())
+      .filter(Boolean),
+    requestTimeoutMs: parseInt(process.env.GEMINI_TIMEOUT_MS || '30000'),
+    maxRetries: parseInt(process.env.GEMINI_MAX_RETRIES || '2'),
+    retryBaseDelayMs: parseInt(process.env.GEMINI_RETRY_BASE_DELAY_MS || '500'),
+    retryMaxDelayMs: parseInt(process.env.GEMINI_RETRY_MAX_DELAY_MS || '8000'),
+    safetySettings: parseSafetySettings(),
   },
   bot: {
-    maxHistoryLength: parseInt(process.env.MAX_HISTORY_LENGTH || '30'),
     maxResponseLength: parseInt(process.env.MAX_RESPONSE_LENGTH || '2000'),
+    enableContinueButton: process.env.ENABLE_CONTINUE_BUTTON !== 'false',
     enableImageRecognition: process.env.ENABLE_IMAGE_RECOGNITION === 'true',
     enableVoiceRecognition: process.env.ENABLE_VOICE_RECOGNITION === 'true',
     enableMarkdown: process.env.ENABLE_MARKDOWN !== 'false',
+    parseMode: process.env.TELEGRAM_PARSE_MODE === 'MarkdownV2' ? 'MarkdownV2' : 'HTML',
+    enableStreaming: process.env.ENABLE_STREAMING !== 'false',
+    streamEditIntervalMs: parseInt(process.env.STREAM_EDIT_INTERVAL_MS || '1500'),
     enableUserMemory: process.env.ENABLE_USER_MEMORY !== 'false',
+    groupMode: process.env.GROUP_MODE === 'individual' ? 'individual' : 'shared',
+    groupReplyMode: process.env.GROUP_REPLY_MODE === 'always' ? 'always' : 'mention',
+    adminIds: (process.env.ADMIN_IDS || '')
+      .split(',')
+      .map((id) => parseInt(id.trim()))
+      .filter((id) => !isNaN(id)),
+    // Telegram allows about 30 messages per second across all chats
+    broadcastIntervalMs: parseInt(process.env.BROADCAST_INTERVAL_MS || '100'),
+  },
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    burst: parseInt(process.env.RATE_LIMIT_BURST || '5'),
+    perMinute: parseInt(process.env.RATE_LIMIT_PER_MINUTE || '10'),
+    maxConcurrentRequests: parseInt(process.env.GEMINI_MAX_CONCURRENCY || '4'),
+  },
+  usage: {
+    dailyTokenBudget: parseInt(process.env.USER_DAILY_TOKEN_BUDGET || '0'),
+    pricing: parsePricing(process.env.GEMINI_PRICING ||
+      'gemini-2.5-flash=0.30/2.50,gemini-2.5-pro=1.25/10,gemini-2.0-flash=0.10/0.40,gemini-1.5-flash=0.075/0.30'),
+  },
+  memory: {
+    extractEveryMessages: parseInt(process.env.MEMORY_EXTRACT_EVERY || '6'),
+    maxItems: parseInt(process.env.MEMORY_MAX_ITEMS || '50'),
+  },
+  summary: {
+    enabled: process.env.ENABLE_SUMMARY !== 'false',
+    minRecentMessages: parseInt(process.env.SUMMARY_MIN_RECENT_MESSAGES || '6'),
+  },
+  personas: {
+    catalogue: [
+      {
+        id: 'cbt',
+        title: '🧠 КПТ-коуч',
+        systemPrompt: 'Работай как коуч по когнитивно-поведенческой терапии: помогай замечать автоматические мысли, проверять их на реалистичность и находить более сбалансированные. Предлагай короткие упражнения (дневник мыслей, поведенческие эксперименты) и спрашивай, что получилось.',
+        tone: 'структурированный, спокойный, поддерживающий',
+        greeting: '🧠 Давай разберём, что происходит, шаг за шагом. Какая ситуация сейчас беспокоит больше всего?',
+      },
+      {
+        id: 'listener',
+        title: '🤲 Спокойный слушатель',
+        systemPrompt: 'Будь внимательным слушателем: отражай чувства собеседника своими словами, задавай мягкие открытые вопросы и не спеши с советами, пока о них не попросят.',
+        tone: 'тихий, тёплый, неторопливый',
+        greeting: '🤲 Я здесь и слушаю. Расскажи, что у тебя на душе — столько, сколько захочешь.',
+      },
+      {
+        id: 'mentor',
+        title: '🔥 Мотивирующий наставник',
+        systemPrompt: 'Будь мотивирующим наставником: замечай и называй успехи, помогай ставить маленькие конкретные цели на ближайшие дни и напоминай, ради чего человек всё это делает.',
+        tone: 'энергичный, ободряющий, уверенный',
+        greeting: '🔥 Отлично, что ты здесь! Какой маленький шаг мы сделаем сегодня?',
+      },
+    ],
+    allowCustom: process.env.PERSONA_ALLOW_CUSTOM !== 'false',
+    maxCustomLength: parseInt(process.env.PERSONA_MAX_CUSTOM_LENGTH || '200'),
+  },
+  prompt: {
+    path: process.env.PROMPT_PATH || '',
+    hotReload: process.env.PROMPT_HOT_RELOAD !== 'false',
+  },
+  safety: {
+    enabled: process.env.ENABLE_SAFETY !== 'false',
+    useClassifier: process.env.SAFETY_CLASSIFIER !== 'false',
+    classifierTimeoutMs: parseInt(process.env.SAFETY_CLASSIFIER_TIMEOUT_MS || '5000'),
+    crisisMessage: process.env.CRISIS_MESSAGE || '',
+    resources: (process.env.CRISIS_RESOURCES ||
+      '112 — единый номер экстренных служб;' +
+      '8-800-2000-122 — телефон доверия, бесплатно;' +
+      '051 (с мобильного 8-495-051) — экстренная психологическая помощь в Москве, круглосуточно')
+      .split(';')
+      .map((resource) => resource.trim())
+      .filter(Boolean),
+    operatorChatIds: (process.env.OPERATOR_CHAT_IDS || '')
+      .split(',')
+      .map((id) => parseInt(id.trim()))
+      .filter((id) => !isNaN(id)),
+    alertIncludesMessage: process.env.OPERATOR_ALERT_INCLUDE_MESSAGE === 'true',
+  },
+  scheduler: {
+    enabled: process.env.ENABLE_SCHEDULER !== 'false',
+    defaultTimezone: process.env.DEFAULT_TIMEZONE || 'Europe/Moscow',
+    quietHoursStart: process.env.QUIET_HOURS_START || '23:00',
+    quietHoursEnd: process.env.QUIET_HOURS_END || '08:00',
+    maxRemindersPerUser: parseInt(process.env.MAX_REMINDERS_PER_USER || '10'),
+    cleanupCron: process.env.CLEANUP_CRON || '0 4 * * *',
+  },
+  mood: {
+    autoTag: process.env.MOOD_AUTO_TAG !== 'false',
+    maxEntries: parseInt(process.env.MOOD_MAX_ENTRIES || '1000'),
+  },
+  voice: {
+    sttProvider: process.env.STT_PROVIDER === 'command' ? 'command' : 'gemini',
+    sttCommand: process.env.STT_COMMAND || '',
+    ttsProvider: process.env.TTS_PROVIDER === 'command' ? 'command' : 'none',
+    ttsCommand: process.env.TTS_COMMAND || '',
+    maxDurationSec: parseInt(process.env.VOICE_MAX_DURATION_SEC || '300'),
+    commandTimeoutMs: parseInt(process.env.VOICE_COMMAND_TIMEOUT_MS || '60000'),
+  },
+  server: {
+    port: parseInt(process.env.PORT || (process.env.WEBHOOK_URL ? '8080' : '0')),
+    webhookUrl: (process.env.WEBHOOK_URL || '').replace(/\/+$/, ''),
+    webhookSecret: process.env.WEBHOOK_SECRET || '',
+  },
+  storage: {
+    driver: process.env.STORAGE_DRIVER === 'sqlite' ? 'sqlite' : 'json',
+    jsonPath: process.env.JSON_DB_PATH || 'data/db.json',
+    jsonFlushDebounceMs: parseInt(process.env.JSON_FLUSH_DEBOUNCE_MS || '1000'),
+    sqlitePath: process.env.SQLITE_DB_PATH || 'data/bot.sqlite',
+    encryptionKey: process.env.DATA_ENCRYPTION_KEY || '',
+    previousEncryptionKeys: (process.env.DATA_ENCRYPTION_PREVIOUS_KEYS || '').split(',').map((key) => key.trim()).filter(Boolean),
   },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
     enableFileLogging: process.env.ENABLE_FILE_LOGGING === 'true',
     logFile: process.env.LOG_FILE || 'bot.log',
+    redactMessages: process.env.LOG_REDACT_MESSAGES !== 'false',
   },
 };
 
@@ -63,5 +324,35 @@ export const validateConfig = (): boolean => {
     return false;
   }
   
+  const { burst, perMinute, maxConcurrentRequests } = config.rateLimit;
+  if (!(burst >= 1 && perMinute >= 1 && maxConcurrentRequests >= 1)) {
+    console.error('❌ RATE_LIMIT_BURST, RATE_LIMIT_PER_MINUTE и GEMINI_MAX_CONCURRENCY должны быть не меньше 1');
+    return false;
+  }
+  
+  const invalidSafety = Object.entries(config.gemini.safetySettings)
+    .filter(([, threshold]) => !SAFETY_THRESHOLDS.includes(threshold));
+  if (invalidSafety.length > 0) {
+    console.error(`❌ Неверный порог в ${invalidSafety.map(([category]) => `GEMINI_SAFETY_${category.toUpperCase()}`).join(', ')}: допустимы ${SAFETY_THRESHOLDS.join(', ')}`);
+    return false;
+  }
+  
+  if (config.server.webhookUrl && !(config.server.port > 0)) {
+    console.error('❌ Для WEBHOOK_URL нужен PORT, на котором будет слушать HTTP-сервер');
+    return false;
+  }
+  
+  const { encryptionKey, previousEncryptionKeys } = config.storage;
+  if ([encryptionKey, ...previousEncryptionKeys].some((key) => key && !parseEncryptionKey(key))) {
+    console.error('❌ DATA_ENCRYPTION_KEY и DATA_ENCRYPTION_PREVIOUS_KEYS должны быть 32-байтовыми ключами в base64 или hex');
+    return false;
+  }
+  
+  // Telegram accepts only these characters in secret_token
+  if (config.server.webhookSecret && !/^[A-Za-z0-9_-]{1,256}$/.test(config.server.webhookSecret)) {
+    console.error('❌ WEBHOOK_SECRET может содержать только A-Z, a-z, 0-9, _ и - (до 256 символов)');
+    return false;
+  }
+  
   return true;
 };
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { contextManager, ChatMessage, FeedbackRecord, UserSession } from './utils/context';
+import { logger } from './utils/logger';
+
+export const FEEDBACK_REASONS: Record<string, string> = {
+  offtopic: 'Не по теме',
+  long: 'Слишком длинно',
+  wrong: 'Неточно',
+  tone: 'Не тот тон',
+};
+
+export const createReplyId = (): string => crypto.randomBytes(4).toString('hex');
+
+// The rated reply and the user turn(s) it answered
+export function findRatedPair(
+  session: UserSession,
+  messageId: string
+): { index: number; message: ChatMessage; prompt: string } | null {
+  const index = session.history.findIndex((message) => message.id === messageId);
+  if (index === -1) return null;
+
+  const promptMessages: ChatMessage[] = [];
+  for (let i = index - 1; i >= 0 && session.history[i].role === 'user'; i--) {
+    promptMessages.unshift(session.history[i]);
+  }
+
+  const prompt = promptMessages
+    .map((message) => (message.authorName ? `${message.authorName}: ${message.content}` : message.content))
+    .join('\n');
+  return { index, message: session.history[index], prompt };
+}
+
+class FeedbackService {
+  // Returns null when the reply already left the history (compacted or reset) or another
+  // member of a shared group session already rated it
+  async rate(
+    sessionKey: string,
+    userId: number,
+    messageId: string,
+    rating: FeedbackRecord['rating']
+  ): Promise<FeedbackRecord | null> {
+    const session = await contextManager.getSession(sessionKey);
+    const pair = session && findRatedPair(session, messageId);
+    if (!pair) return null;
+
+    const previous = await contextManager.getFeedback(messageId);
+    if (previous && previous.userId !== userId) {
+      logger.warn('Rating of another user\'s feedback rejected', { sessionKey, messageId, userId });
+      return null;
+    }
+
+    const record: FeedbackRecord = {
+      messageId,
+      sessionKey,
+      userId,
+      rating,
+      // A changed mind drops the reason given for the old rating
+      ...(previous?.rating === rating && previous.reason && { reason: previous.reason }),
+      prompt: pair.prompt,
+      response: pair.message.content,
+      model: pair.message.model,
+      promptVersion: pair.message.promptVersion,
+      regeneratedFrom: pair.message.regeneratedFrom,
+      ratedAt: Date.now(),
+    };
+
+    await contextManager.saveFeedback(record);
+    logger.info('Reply rated', { sessionKey, messageId, rating, promptVersion: record.promptVersion });
+    return record;
+  }
+
+  // Only the person who rated the reply may explain the rating
+  async setReason(messageId: string, userId: number, reason: string): Promise<boolean> {
+    const record = await contextManager.getFeedback(messageId);
+    if (!record || record.userId !== userId) return false;
+
+    await contextManager.saveFeedback({ ...record, reason });
+    return true;
+  }
+
+  async getStats(): Promise<{ likes: number; dislikes: number; byPromptVersion: Record<string, { likes: number; dislikes: number }> }> {
+    const stats = { likes: 0, dislikes: 0, byPromptVersion: {} as Record<string, { likes: number; dislikes: number }> };
+    for (const record of await contextManager.listFeedback()) {
+      const version = record.promptVersion || 'unknown';
+      const bucket = stats.byPromptVersion[version] || (stats.byPromptVersion[version] = { likes: 0, dislikes: 0 });
+      if (record.rating === 'like') {
+        stats.likes++;
+        bucket.likes++;
+      } else {
+        stats.dislikes++;
+        bucket.dislikes++;
+      }
+    }
+    return stats;
+  }
+
+  // One rated prompt/response pair per line, for offline prompt evaluation
+  async exportJsonl(): Promise<string> {
+    const records = await contextManager.listFeedback();
+    return records
+      .sort((a, b) => a.ratedAt - b.ratedAt)
+      .map((record) => JSON.stringify(record))
+      .join('\n');
+  }
+}
+
+export const feedbackService = new FeedbackService();
@@ -1,182 +1,523 @@
-import { GoogleGenerativeAI, GenerativeModel, ChatSession } from '@google/generative-ai';
-import { config } from './config';
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+  Content,
+  GenerationConfig,
+  GenerativeModel,
+  HarmBlockThreshold,
+  HarmCategory,
+  Part,
+  SafetySetting,
+  SingleRequestOptions,
+  UsageMetadata,
+} from '@google/generative-ai';
+import { config, SafetyCategory } from './config';
 import { logger } from './utils/logger';
-import { ChatMessage } from './utils/context';
+import { Semaphore } from './utils/rateLimit';
+import { ChatMessage, MemoryItem, MemoryItemKind, ReminderKind, UserSession } from './utils/context';
+import { SobrietyStatus, formatDays } from './sobriety';
+import { MoodSummary } from './mood';
+import { TokenUsage, usageService } from './usage';
+import { PromptProfile, promptService } from './prompts';
+import { ActivePersona, buildPersonaInstruction } from './personas';
+
+export interface ImageInput {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface GenerationOptions {
+  image?: ImageInput;
+  // Running summary of the turns that no longer fit into the history
+  summary?: string;
+  sobriety?: SobrietyStatus;
+  mood?: MoodSummary;
+  // A reply the user rejected; the model is asked for a different take
+  avoidResponse?: string;
+  // Who the tokens are billed to
+  userId?: number;
+  // Profile resolved for the session; the default profile otherwise
+  prompt?: PromptProfile;
+  // Picked with /persona; layered over the prompt profile
+  persona?: ActivePersona;
+}
+
+type UserMemory = UserSession['userMemory'];
+
+export interface MemoryUpdate {
+  add: { kind: MemoryItemKind; text: string }[];
+  achieved: string[];
+  outdated: string[];
+}
 
 export interface GeminiResponse {
   text: string;
-  usage?: {
-    promptTokens: number;
-    responseTokens: number;
-    totalTokens: number;
+  usage?: TokenUsage;
+  // The model that produced the text; differs from config.gemini.model after a fallback
+  model?: string;
+}
+
+export type GeminiErrorKind = 'rate_limit' | 'overloaded' | 'safety' | 'invalid_request' | 'timeout' | 'unknown';
+
+// Worth another attempt on the same model after a pause
+const RETRYABLE_ERRORS: GeminiErrorKind[] = ['rate_limit', 'overloaded', 'timeout'];
+
+// A Gemini call that failed for good, after retries and fallback models
+export class GeminiError extends Error {
+  constructor(message: string, public kind: GeminiErrorKind) {
+    super(message);
+    this.name = 'GeminiError';
+  }
+}
+
+// Thrown when a streamed response fails midway; carries whatever text arrived before the failure
+export class GeminiStreamError extends GeminiError {
+  constructor(message: string, kind: GeminiErrorKind, public partialText: string) {
+    super(message, kind);
+    this.name = 'GeminiStreamError';
+  }
+}
+
+export function classifyGeminiError(error: unknown): GeminiErrorKind {
+  if (error instanceof GeminiError) return error.kind;
+  // Raised for blocked prompts and candidates
+  if (error instanceof GoogleGenerativeAIResponseError) return 'safety';
+  if (error instanceof GoogleGenerativeAIAbortError) return 'timeout';
+  if (error instanceof GoogleGenerativeAIFetchError && error.status) {
+    if (error.status === 429) return 'rate_limit';
+    if (error.status === 504) return 'timeout';
+    if (error.status >= 500) return 'overloaded';
+    if (error.status >= 400) return 'invalid_request';
+  }
+  
+  // Network failures and older error shapes only carry text
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\[429 |RESOURCE_EXHAUSTED|quota/i.test(message)) return 'rate_limit';
+  if (/\[50[0-3] |UNAVAILABLE|overloaded|fetch failed|ECONNRESET|ECONNREFUSED|EAI_AGAIN/i.test(message)) return 'overloaded';
+  if (/\[504 |DEADLINE_EXCEEDED|aborted|timed? ?out|ETIMEDOUT/i.test(message)) return 'timeout';
+  if (/\[4\d\d |INVALID_ARGUMENT/i.test(message)) return 'invalid_request';
+  if (/SAFETY|blocked/i.test(message)) return 'safety';
+  return 'unknown';
+}
+
+const HARM_CATEGORIES: Record<SafetyCategory, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  hate_speech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexually_explicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerous_content: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+};
+
+const buildSafetySettings = (): SafetySetting[] =>
+  Object.entries(config.gemini.safetySettings).map(([category, threshold]) => ({
+    category: HARM_CATEGORIES[category as SafetyCategory],
+    threshold: threshold as HarmBlockThreshold,
+  }));
+
+export type ResponseLength = 'short' | 'normal' | 'long';
+export type Creativity = 'precise' | 'balanced' | 'creative';
+
+export const RESPONSE_LENGTH_LABELS: Record<ResponseLength, string> = {
+  short: 'коротко',
+  normal: 'обычно',
+  long: 'подробно',
+};
+
+export const CREATIVITY_LABELS: Record<Creativity, string> = {
+  precise: 'точно и по делу',
+  balanced: 'сбалансированно',
+  creative: 'свободнее и образнее',
+};
+
+const LENGTH_FACTORS: Record<ResponseLength, number> = { short: 0.25, normal: 1, long: 2 };
+const MIN_OUTPUT_TOKENS = 256;
+
+// Chat generation parameters for one user; `response_length` and `creativity` come from
+// their preferences (set with /answers), anything else falls back to the configured values
+export function deriveGenerationConfig(preferences: UserMemory['preferences'] = {}): GenerationConfig {
+  const lengthFactor = LENGTH_FACTORS[preferences.response_length as ResponseLength] ?? 1;
+  const { temperature } = config.gemini;
+  const temperatures: Record<Creativity, number> = {
+    precise: temperature / 2,
+    balanced: temperature,
+    creative: Math.min(2, temperature + 0.3),
   };
+
+  return {
+    maxOutputTokens: Math.max(MIN_OUTPUT_TOKENS, Math.round(config.gemini.maxTokens * lengthFactor)),
+    temperature: temperatures[preferences.creativity as Creativity] ?? temperature,
+  };
+}
+
+const toGeminiError = (error: unknown): GeminiError => {
+  if (error instanceof GeminiError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new GeminiError(`Ошибка при обращении к AI: ${message}`, classifyGeminiError(error));
+};
+
+// Aborts the request itself rather than only giving up on it; a stream passes one
+// controller to every chunk read, so a stall anywhere cancels the whole download
+function withTimeout<T>(
+  request: (options: SingleRequestOptions) => Promise<T>,
+  controller: AbortController = new AbortController()
+): Promise<T> {
+  const timeoutMs = config.gemini.requestTimeoutMs;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new GeminiError(`Gemini не ответил за ${timeoutMs} мс`, 'timeout'));
+    }, timeoutMs);
+  });
+  return Promise.race([request({ signal: controller.signal }), timeout]).finally(() => clearTimeout(timer));
 }
 
+// Exponential backoff with full jitter, so throttled callers don't retry in lockstep
+const backoffDelay = (attempt: number): number =>
+  Math.random() * Math.min(config.gemini.retryMaxDelayMs, config.gemini.retryBaseDelayMs * 2 ** attempt);
+
 export class GeminiService {
   private genAI: GoogleGenerativeAI;
-  private model: GenerativeModel;
-  private customPrompt: any = {};
+  // The primary model first, then the fallbacks in the order they are tried
+  private models: { name: string; model: GenerativeModel }[];
+  // Shared by every call, so background jobs and chat replies draw on one quota
+  private requestSlots = new Semaphore(config.rateLimit.maxConcurrentRequests);
 
   constructor() {
     this.genAI = new GoogleGenerativeAI(config.gemini.apiKey);
-    this.model = this.genAI.getGenerativeModel({ 
-      model: config.gemini.model,
-      generationConfig: {
-        maxOutputTokens: config.gemini.maxTokens,
-        temperature: config.gemini.temperature,
-      },
-    });
+    this.models = [config.gemini.model, ...config.gemini.fallbackModels].map((name) => ({
+      name,
+      model: this.genAI.getGenerativeModel({ 
+        model: name,
+        generationConfig: deriveGenerationConfig(),
+        safetySettings: buildSafetySettings(),
+      }),
+    }));
   }
 
-  async loadCustomPrompt(): Promise<void> {
+  // Cheapest authenticated call there is; proves the key works and the API is reachable
+  async ping(): Promise<void> {
     try {
-      const fs = await import('fs/promises');
-      const promptData = await fs.readFile('./src/prompt.json', 'utf-8');
-      this.customPrompt = JSON.parse(promptData);
-      logger.info('Custom prompt loaded successfully', { 
-        persona: this.customPrompt.persona?.substring(0, 100) + '...',
-        tone: this.customPrompt.tone,
-        instructionsCount: this.customPrompt.system_instructions?.length || 0
-      });
+      await withTimeout((requestOptions) => this.models[0].model.countTokens('ping', requestOptions));
     } catch (error) {
-      logger.warn('Could not load custom prompt, using defaults');
-      this.customPrompt = {
-        persona: 'Ты — дружелюбный и умный AI-помощник. Помни контекст разговора и будь полезным.',
-        tone: 'дружелюбный, экспертный, спокойный',
-        style: 'на русском языке, без лишней воды',
-        system_instructions: []
-      };
+      throw toGeminiError(error);
     }
   }
 
   async generateResponse(
     messages: ChatMessage[],
-    userMemory?: any,
-    imageData?: Buffer
+    userMemory?: UserMemory,
+    options: GenerationOptions = {}
   ): Promise<GeminiResponse> {
+    const startTime = Date.now();
+    
     try {
-      const startTime = Date.now();
+      const { systemInstruction, history, prompt } = this.splitConversation(messages, userMemory, options);
+      const generationConfig = deriveGenerationConfig(userMemory?.preferences);
       
-      // Prepare the conversation history
-      const conversationHistory = this.prepareConversationHistory(messages, userMemory);
+      // Images travel with the current turn, so the whole history stays in context
+      const { result: { text, usage }, model } = await this.withRetry('response', async (generativeModel, modelName) => {
+        const chat = generativeModel.startChat({ history, systemInstruction, generationConfig });
+        const result = await withTimeout((requestOptions) => chat.sendMessage(this.buildRequest(prompt, options.image), requestOptions));
+        const text = result.response.text();
+        return { text, usage: this.recordUsage(options.userId, modelName, result.response.usageMetadata) };
+      });
       
-      // Start a chat session
-      const chat = this.model.startChat({
-        history: conversationHistory,
+      const processingTime = Date.now() - startTime;
+      logger.info('Gemini response generated', { 
+        processingTime,
+        responseLength: text.length,
+        hasImage: !!options.image,
+        model,
+        totalTokens: usage?.totalTokens,
       });
+      
+      return { text, model, usage };
+    } catch (error) {
+      const geminiError = toGeminiError(error);
+      logger.error('Gemini API error', { error: geminiError.message, kind: geminiError.kind });
+      throw geminiError;
+    }
+  }
 
-      // Prepare the current message
-      let currentMessage: string;
-      if (imageData && config.bot.enableImageRecognition) {
-        // For multimodal requests with images
-        const imagePart = {
-          inlineData: {
-            data: imageData.toString('base64'),
-            mimeType: 'image/jpeg',
-          },
-        };
-        
-        const textPart = messages[messages.length - 1]?.content || '';
-        currentMessage = textPart;
-        
-        // Use generateContent for multimodal
-        const result = await this.model.generateContent([
-          { text: currentMessage },
-          imagePart,
-        ]);
-        
-        const response = await result.response;
-        const text = response.text();
-        
-        const processingTime = Date.now() - startTime;
-        logger.info('Gemini response generated', { 
-          processingTime,
-          responseLength: text.length,
-          hasImage: true,
-        });
-        
-        return { text };
-      } else {
-        // Text-only conversation
-        const lastMessage = messages[messages.length - 1];
-        if (!lastMessage) {
-          throw new Error('No message to process');
+  async generateResponseStream(
+    messages: ChatMessage[],
+    userMemory: UserMemory | undefined,
+    onProgress: (text: string) => void,
+    options: GenerationOptions = {}
+  ): Promise<GeminiResponse> {
+    const startTime = Date.now();
+    let text = '';
+    
+    try {
+      const { systemInstruction, history, prompt } = this.splitConversation(messages, userMemory, options);
+      const generationConfig = deriveGenerationConfig(userMemory?.preferences);
+      
+      const { result: usage, model } = await this.withRetry('stream', async (generativeModel, modelName) => {
+        const chat = generativeModel.startChat({ history, systemInstruction, generationConfig });
+        try {
+          const controller = new AbortController();
+          const result = await withTimeout(
+            (requestOptions) => chat.sendMessageStream(this.buildRequest(prompt, options.image), requestOptions),
+            controller
+          );
+          // Rejects as well when the stream is aborted; awaited only after a clean finish
+          result.response.catch(() => undefined);
+          // The timeout applies to every chunk, so a long answer is fine but a stalled one is not
+          const chunks = result.stream[Symbol.asyncIterator]();
+          for (;;) {
+            const chunk = await withTimeout(() => chunks.next(), controller);
+            if (chunk.done) break;
+            text += chunk.value.text();
+            onProgress(text);
+          }
+          // Resolves once the stream is drained; only the final chunk carries the totals
+          const response = await result.response;
+          return this.recordUsage(options.userId, modelName, response.usageMetadata);
+        } catch (error) {
+          // Text already on screen can't be retried invisibly
+          if (text) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new GeminiStreamError(`Ошибка при обращении к AI: ${message}`, classifyGeminiError(error), text);
+          }
+          throw error;
         }
-        
-        const result = await chat.sendMessage(lastMessage.content);
-        const response = await result.response;
-        const text = response.text();
-        
-        const processingTime = Date.now() - startTime;
-        logger.info('Gemini response generated', { 
-          processingTime,
-          responseLength: text.length,
-          hasImage: false,
-        });
-        
-        return { text };
-      }
+      });
+      
+      logger.info('Gemini response streamed', { 
+        processingTime: Date.now() - startTime,
+        responseLength: text.length,
+        model,
+        totalTokens: usage?.totalTokens,
+      });
+      
+      return { text, model, usage };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error('Gemini API error', { error: errorMessage });
-      throw new Error(`Ошибка при обращении к AI: ${errorMessage}`);
+      const geminiError = toGeminiError(error);
+      logger.error('Gemini streaming error', { error: geminiError.message, kind: geminiError.kind, partialLength: text.length });
+      throw geminiError;
+    }
+  }
+
+  // Tries each model in turn; transient failures get a few retries with backoff before moving on
+  private async withRetry<T>(
+    operation: string,
+    call: (model: GenerativeModel, modelName: string) => Promise<T>
+  ): Promise<{ result: T; model: string }> {
+    let lastError: unknown;
+    
+    for (const { name, model } of this.models) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return { result: await this.requestSlots.run(() => call(model, name)), model: name };
+        } catch (error) {
+          if (error instanceof GeminiStreamError) throw error;
+          
+          lastError = error;
+          const kind = classifyGeminiError(error);
+          logger.warn('Gemini request failed', {
+            operation,
+            model: name,
+            attempt,
+            kind,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          
+          // Another model would refuse the same content
+          if (kind === 'safety') throw toGeminiError(error);
+          if (!RETRYABLE_ERRORS.includes(kind) || attempt >= config.gemini.maxRetries) break;
+          
+          await new Promise((resolve) => setTimeout(resolve, backoffDelay(attempt)));
+        }
+      }
+    }
+    
+    throw toGeminiError(lastError);
+  }
+
+  private async generateText(request: Parameters<GenerativeModel['generateContent']>[0], userId?: number): Promise<string> {
+    const { result } = await this.withRetry('content', async (model, modelName) => {
+      const { response } = await withTimeout((requestOptions) => model.generateContent(request, requestOptions));
+      const text = response.text();
+      this.recordUsage(userId, modelName, response.usageMetadata);
+      return text;
+    });
+    return result;
+  }
+
+  // Hands the counts to the usage ledger when the call can be billed to someone
+  private recordUsage(userId: number | undefined, model: string, metadata?: UsageMetadata): TokenUsage | undefined {
+    if (!metadata) return undefined;
+    
+    const usage: TokenUsage = {
+      promptTokens: metadata.promptTokenCount || 0,
+      responseTokens: metadata.candidatesTokenCount || 0,
+      totalTokens: metadata.totalTokenCount || 0,
+    };
+    if (userId !== undefined) {
+      usageService.record(userId, model, usage);
+    }
+    return usage;
+  }
+
+  private buildRequest(prompt: string, image?: ImageInput): string | Array<string | Part> {
+    if (!image || !config.bot.enableImageRecognition) {
+      return prompt;
     }
+    return [prompt, this.toImagePart(image)];
+  }
+
+  private toImagePart(image: ImageInput): Part {
+    return {
+      inlineData: {
+        data: image.data.toString('base64'),
+        mimeType: image.mimeType,
+      },
+    };
   }
 
-  private prepareConversationHistory(messages: ChatMessage[], userMemory?: any): any[] {
-    const history: any[] = [];
+  // Trailing user messages (e.g. unanswered group chatter) form the current turn, the rest is history
+  private splitConversation(
+    messages: ChatMessage[],
+    userMemory?: UserMemory,
+    options: GenerationOptions = {}
+  ): { systemInstruction: string; history: Content[]; prompt: string } {
+    let splitIndex = messages.length;
+    while (splitIndex > 0 && messages[splitIndex - 1].role === 'user') {
+      splitIndex--;
+    }
+    const pendingMessages = messages.slice(splitIndex);
+    if (pendingMessages.length === 0) {
+      throw new Error('No message to process');
+    }
+    
+    let systemInstruction = this.buildSystemInstruction(userMemory, options);
+    const history = this.prepareConversationHistory(messages.slice(0, splitIndex));
     
-    // Build system message from custom prompt
-    let systemMessage = this.customPrompt.persona || 'Ты — дружелюбный и умный AI-помощник. Помни контекст разговора и будь полезным.';
+    // Gemini wants the history to open with a user turn; a proactive message the bot
+    // started with (a reminder, a greeting) moves into the instruction instead
+    if (history[0]?.role === 'model') {
+      const opening = history.shift()!.parts.map((part) => part.text).join('\n');
+      systemInstruction += `\n\nРазговор начался с твоего сообщения:\n${opening}`;
+    }
+    
+    return {
+      systemInstruction,
+      history,
+      prompt: pendingMessages.map((message) => this.formatMessageText(message)).join('\n'),
+    };
+  }
+
+  // Every field of the prompt profile, so nothing in prompt.json is left out
+  private buildProfileInstruction(prompt: PromptProfile): string {
+    let instruction = prompt.persona;
     
-    // Add tone and style if available
-    if (this.customPrompt.tone) {
-      systemMessage += `\n\nТон общения: ${this.customPrompt.tone}`;
+    if (prompt.tone) {
+      instruction += `\n\nТон общения: ${prompt.tone}`;
+    }
+    if (prompt.style) {
+      instruction += `\n\nСтиль: ${prompt.style}`;
+    }
+    if (prompt.specialization && prompt.specialization.length > 0) {
+      instruction += `\n\nСпециализация: ${prompt.specialization.join(', ')}`;
     }
-    if (this.customPrompt.style) {
-      systemMessage += `\n\nСтиль: ${this.customPrompt.style}`;
+    if (prompt.system_instructions && prompt.system_instructions.length > 0) {
+      instruction += '\n\nДополнительные инструкции:\n' + prompt.system_instructions.join('\n');
     }
     
-    // Add system instructions if available
-    if (this.customPrompt.system_instructions && this.customPrompt.system_instructions.length > 0) {
-      systemMessage += '\n\nДополнительные инструкции:\n' + this.customPrompt.system_instructions.join('\n');
+    return instruction;
+  }
+
+  // Sent as the model's system instruction rather than as a chat turn, so users can't talk over it
+  private buildSystemInstruction(userMemory?: UserMemory, options: GenerationOptions = {}): string {
+    let instruction = this.buildProfileInstruction(options.prompt || promptService.getDefault());
+    
+    if (options.persona) {
+      instruction += `\n\n${buildPersonaInstruction(options.persona)}`;
     }
     
-    // Add user memory if available
     if (userMemory && config.bot.enableUserMemory) {
-      const memoryContext = this.buildMemoryContext(userMemory);
+      const memoryContext = this.buildMemoryContext(userMemory, options.sobriety, options.mood);
       if (memoryContext) {
-        systemMessage += `\n\nКонтекст пользователя: ${memoryContext}`;
+        instruction += `\n\nКонтекст пользователя: ${memoryContext}`;
       }
     }
     
-    // Add system message
-    history.push({
-      role: 'user',
-      parts: [{ text: systemMessage }],
-    });
-    history.push({
-      role: 'model',
-      parts: [{ text: 'Понял! Я готов помочь и буду учитывать контекст нашего разговора.' }],
-    });
+    if (options.avoidResponse) {
+      instruction += `\n\nПредыдущий вариант ответа не подошёл пользователю:\n«${options.avoidResponse.substring(0, 1000)}»\nОтветь иначе: по-другому построй ответ и учти, что могло не понравиться.`;
+    }
+    
+    // Earlier part of the conversation that was compressed out of the history
+    if (options.summary) {
+      instruction += `\n\nКраткое содержание предыдущего разговора:\n${options.summary}`;
+    }
+    
+    return instruction;
+  }
 
-    // Add conversation history (skip system messages)
+  private prepareConversationHistory(messages: ChatMessage[]): Content[] {
+    const history: Content[] = [];
+    
+    // System messages are covered by the system instruction
     for (const message of messages) {
       if (message.role === 'system') continue;
       
       const role = message.role === 'user' ? 'user' : 'model';
+      const text = this.formatMessageText(message);
+      
+      // Shared group histories can hold several user turns in a row; Gemini expects alternating roles
+      const previous = history[history.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push({ text });
+        continue;
+      }
+      
       history.push({
         role,
-        parts: [{ text: message.content }],
+        parts: [{ text }],
       });
     }
     
     return history;
   }
 
-  private buildMemoryContext(userMemory: any): string {
+  private formatMessageText(message: ChatMessage): string {
+    let text = message.content;
+    
+    // Earlier images are only available to the model through their stored description
+    if (message.image) {
+      const description = `[Изображение: ${message.image.description || 'без описания'}]`;
+      text = text ? `${description}\n${text}` : description;
+    }
+    
+    return message.authorName ? `${message.authorName}: ${text}` : text;
+  }
+
+  private buildMemoryContext(userMemory: UserMemory, sobriety?: SobrietyStatus, mood?: MoodSummary): string {
     const contextParts: string[] = [];
     
+    if (sobriety) {
+      let sobrietyText = `Трезвость: ${formatDays(sobriety.streakDays)} подряд, лучшая серия ${formatDays(sobriety.bestStreakDays)}`;
+      if (sobriety.lastRelapseAt) {
+        sobrietyText += `, последний срыв ${new Date(sobriety.lastRelapseAt).toLocaleDateString('ru-RU')}`;
+      }
+      contextParts.push(sobrietyText);
+    }
+    
+    if (mood && (mood.averageRating !== undefined || mood.topEmotions.length > 0)) {
+      const moodParts: string[] = [];
+      if (mood.averageRating !== undefined) {
+        const trends = { up: 'улучшается', down: 'ухудшается', flat: 'стабильно' };
+        moodParts.push(`в среднем ${mood.averageRating.toFixed(1)}/10${mood.trend ? `, ${trends[mood.trend]}` : ''}`);
+      }
+      if (mood.topEmotions.length > 0) {
+        moodParts.push(`чаще всего ${mood.topEmotions.join(', ')}`);
+      }
+      contextParts.push(`Настроение за ${mood.days} дней: ${moodParts.join(', ')}`);
+    }
+    
     if (userMemory.interests && userMemory.interests.length > 0) {
       contextParts.push(`Интересы: ${userMemory.interests.join(', ')}`);
     }
@@ -196,35 +537,186 @@ export class GeminiService {
       contextParts.push(`Предпочтения: ${prefs}`);
     }
     
+    const items: MemoryItem[] = userMemory.items || [];
+    const activeItems = items.filter((item) => item.status === 'active');
+    if (activeItems.length > 0) {
+      contextParts.push(`Известно о пользователе: ${activeItems.map((item) => item.text).join(', ')}`);
+    }
+    
+    const achievedGoals = items.filter((item) => item.status === 'achieved');
+    if (achievedGoals.length > 0) {
+      contextParts.push(`Достигнутые цели: ${achievedGoals.map((item) => item.text).join(', ')}`);
+    }
+    
     return contextParts.join('; ');
   }
 
-  async analyzeImage(imageData: Buffer, prompt?: string): Promise<string> {
+  async analyzeImage(imageData: Buffer, prompt?: string, mimeType: string = 'image/jpeg', userId?: number): Promise<string> {
     try {
-      const imagePart = {
-        inlineData: {
-          data: imageData.toString('base64'),
-          mimeType: 'image/jpeg',
-        },
-      };
+      const imagePart = this.toImagePart({ data: imageData, mimeType });
       
       const textPrompt = prompt || 'Опиши что ты видишь на этом изображении. Будь подробным и полезным.';
       
-      const result = await this.model.generateContent([
+      return await this.generateText([
         { text: textPrompt },
         imagePart,
-      ]);
+      ], userId);
+    } catch (error) {
+      // Keeps the kind, so the handler can tell a rate limit or a refusal from a plain failure
+      const geminiError = toGeminiError(error);
+      logger.error('Image analysis error', { error: geminiError.message, kind: geminiError.kind });
+      throw geminiError;
+    }
+  }
+
+  async transcribeAudio(audioData: Buffer, mimeType: string, userId?: number): Promise<string> {
+    try {
+      const audioPart = {
+        inlineData: {
+          data: audioData.toString('base64'),
+          mimeType,
+        },
+      };
       
-      const response = await result.response;
-      return response.text();
+      return (await this.generateText([
+        { text: 'Расшифруй это голосовое сообщение дословно на языке оригинала. Ответь только текстом расшифровки, без комментариев.' },
+        audioPart,
+      ], userId)).trim();
+    } catch (error) {
+      const geminiError = toGeminiError(error);
+      logger.error('Audio transcription error', { error: geminiError.message, kind: geminiError.kind });
+      throw geminiError;
+    }
+  }
+
+  async extractMemoryUpdates(messages: ChatMessage[], currentItems: MemoryItem[], userId?: number): Promise<MemoryUpdate> {
+    const empty: MemoryUpdate = { add: [], achieved: [], outdated: [] };
+    
+    try {
+      const dialogue = messages
+        .filter((message) => message.role !== 'system')
+        .map((message) => `${message.role === 'user' ? 'Пользователь' : 'Ассистент'}: ${this.formatMessageText(message)}`)
+        .join('\n');
+      
+      const known = currentItems
+        .map((item) => `${item.id} [${item.kind}, ${item.status}]: ${item.text}`)
+        .join('\n') || 'пока ничего';
+      
+      const extractionPrompt = `
+        Ты ведёшь заметки терапевтического ассистента о пользователе.
+        Из диалога ниже выдели только устойчивые факты о самом пользователе, которые пригодятся в будущих разговорах:
+        факты (fact), интересы (interest), цели (goal), предпочтения в общении (preference).
+        Не записывай разовые детали, эмоции одного момента и то, что уже известно.
+        
+        Уже известно (id [тип, статус]: текст):
+        ${known}
+        
+        Диалог:
+        ${dialogue}
+        
+        Ответь в формате JSON:
+        {
+          "add": [{ "kind": "fact|interest|goal|preference", "text": "коротко, в третьем лице" }],
+          "achieved": ["id целей, которых пользователь достиг"],
+          "outdated": ["id записей, которые перестали быть правдой"]
+        }
+      `;
+      
+      const text = await this.generateText(extractionPrompt, userId);
+      
+      const jsonMatch = text.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        return empty;
+      }
+      
+      const parsed = JSON.parse(jsonMatch[0]);
+      return {
+        add: Array.isArray(parsed.add) ? parsed.add : [],
+        achieved: Array.isArray(parsed.achieved) ? parsed.achieved : [],
+        outdated: Array.isArray(parsed.outdated) ? parsed.outdated : [],
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error('Image analysis error', { error: errorMessage });
-      throw new Error(`Ошибка при анализе изображения: ${errorMessage}`);
+      logger.error('Memory extraction error', { error: errorMessage });
+      return empty;
     }
   }
 
-  async analyzeUserIntent(message: string): Promise<{
+  async summarizeConversation(previousSummary: string | undefined, messages: ChatMessage[], userId?: number): Promise<string> {
+    try {
+      const dialogue = messages
+        .filter((message) => message.role !== 'system')
+        .map((message) => `${message.role === 'user' ? 'Пользователь' : 'Ассистент'}: ${this.formatMessageText(message)}`)
+        .join('\n');
+      
+      const summaryPrompt = `
+        Ты ведёшь краткое содержание разговора терапевтического ассистента с пользователем.
+        Дополни текущее содержание новыми сообщениями и перепиши его целиком.
+        Сохрани то, что пригодится для продолжения разговора: о чём говорили, что пользователь рассказал о себе
+        и своём состоянии, о чём договорились, какие вопросы остались открытыми.
+        Пиши от третьего лица, сжато, не больше 200 слов, без вступлений.
+        
+        Текущее содержание:
+        ${previousSummary || 'пока пусто'}
+        
+        Новые сообщения:
+        ${dialogue}
+      `;
+      
+      return (await this.generateText(summaryPrompt, userId)).trim();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error('Conversation summary error', { error: errorMessage });
+      throw new Error(`Ошибка при сжатии истории: ${errorMessage}`);
+    }
+  }
+
+  // Short proactive message for a scheduled reminder, grounded in the recent conversation
+  async generateReminderMessage(
+    reminder: { kind: ReminderKind; text?: string },
+    messages: ChatMessage[],
+    userMemory?: UserMemory,
+    userId?: number,
+    prompt: PromptProfile = promptService.getDefault()
+  ): Promise<string> {
+    const purposes: Record<ReminderKind, string> = {
+      mood: 'ежедневная проверка настроения: спроси, как пользователь себя чувствует, по шкале от 1 до 10',
+      medication: 'напоминание принять лекарство',
+      sleep: 'напоминание начать готовиться ко сну',
+      custom: 'напоминание, которое пользователь попросил',
+    };
+    
+    try {
+      const dialogue = messages
+        .filter((message) => message.role !== 'system')
+        .slice(-10)
+        .map((message) => `${message.role === 'user' ? 'Пользователь' : 'Ассистент'}: ${this.formatMessageText(message)}`)
+        .join('\n');
+      const memoryContext = userMemory ? this.buildMemoryContext(userMemory) : '';
+      
+      const reminderPrompt = `
+        Напиши пользователю первым короткое сообщение (1–3 предложения).
+        Повод: ${purposes[reminder.kind]}${reminder.text ? ` — «${reminder.text}»` : ''}.
+        Если уместно, мягко свяжи его с недавним разговором, но не пересказывай его. Без приветствий в начале.
+        
+        Контекст пользователя: ${memoryContext || 'нет'}
+        
+        Недавний разговор:
+        ${dialogue || 'пока не было'}
+      `;
+      
+      return (await this.generateText({
+        systemInstruction: this.buildProfileInstruction(prompt),
+        contents: [{ role: 'user', parts: [{ text: reminderPrompt }] }],
+      }, userId)).trim();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error('Reminder message error', { error: errorMessage });
+      throw new Error(`Ошибка при подготовке напоминания: ${errorMessage}`);
+    }
+  }
+
+  async analyzeUserIntent(message: string, userId?: number): Promise<{
     intent: string;
     emotion: string;
     urgency: 'low' | 'medium' | 'high';
@@ -235,7 +727,8 @@ export class GeminiService {
         Проанализируй следующее сообщение пользователя и определи:
         1. Намерение (intent): что хочет пользователь
         2. Эмоцию (emotion): какое настроение у пользователя
-        3. Срочность (urgency): low, medium, high
+        3. Срочность (urgency): low, medium, high — high только при угрозе жизни или здоровью:
+           мысли о суициде, самоповреждение, передозировка, тяжёлый срыв или абстиненция
         4. Темы (topics): какие темы затрагиваются
         
         Сообщение: "${message}"
@@ -249,9 +742,7 @@ export class GeminiService {
         }
       `;
       
-      const result = await this.model.generateContent(analysisPrompt);
-      const response = await result.response;
-      const text = response.text();
+      const text = await this.generateText(analysisPrompt, userId);
       
       // Try to parse JSON response
       const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -277,26 +768,6 @@ export class GeminiService {
       };
     }
   }
-
-  async generatePersonaResponse(message: string, persona: string): Promise<string> {
-    try {
-      const prompt = `
-        Ты должен отвечать как: ${persona}
-        
-        Сообщение пользователя: ${message}
-        
-        Ответь в соответствии с заданной персоной, сохраняя полезность и дружелюбие.
-      `;
-      
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      return response.text();
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error('Persona response error', { error: errorMessage });
-      throw new Error(`Ошибка при генерации ответа с персоной: ${errorMessage}`);
-    }
-  }
 }
 
 export const geminiService = new GeminiService();
@@ -1,40 +1,99 @@
+import path from 'path';
 import TelegramBot, { Message, CallbackQuery } from 'node-telegram-bot-api';
 import { config, validateConfig } from './config';
-import { geminiService } from './gemini';
-import { contextManager } from './utils/context';
+import {
+  geminiService,
+  GeminiError,
+  GeminiResponse,
+  GeminiStreamError,
+  GenerationOptions,
+  ImageInput,
+  Creativity,
+  ResponseLength,
+  CREATIVITY_LABELS,
+  RESPONSE_LENGTH_LABELS,
+} from './gemini';
+import {
+  contextManager,
+  isGroupChat,
+  GroupMode,
+  GroupReplyMode,
+  ImageReference,
+  MemoryItemKind,
+  ReminderKind,
+  UserSession,
+} from './utils/context';
 import { logger, logUserMessage, logBotResponse, logError, logCommand } from './utils/logger';
-import fs from 'fs/promises';
-
-// Function to clean Markdown text for Telegram
-function cleanMarkdownText(text: string): string {
-  // Remove problematic Markdown characters that cause parsing errors
-  return text
-    .replace(/\*([^*]+)\*/g, '$1') // Remove bold markers
-    .replace(/_([^_]+)_/g, '$1')   // Remove italic markers
-    .replace(/`([^`]+)`/g, '$1')   // Remove code markers
-    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links, keep text
-    .replace(/#{1,6}\s*/g, '')     // Remove headers
-    .replace(/\n{3,}/g, '\n\n')    // Limit multiple newlines
-    .replace(/[<>]/g, '')         // Remove only angle brackets that cause issues
-    .trim();
+import { safeSendMessage, safeEditMessage, sendLongMessage, downloadFile } from './utils/telegram';
+import { detectImageMimeType } from './utils/media';
+import { truncateResponse } from './utils/chunker';
+import { KeyedQueue, TokenBucketLimiter } from './utils/rateLimit';
+import { StreamingReply } from './utils/streaming';
+import { stripMarkdown } from './utils/markdown';
+import { getUserTimezone } from './utils/time';
+import { speechToText, textToSpeech } from './speech';
+import { memoryService } from './memory';
+import { summaryService } from './summary';
+import { safetyService } from './safety';
+import { sobrietyService, getSobrietyStatus, parseStartDate, formatDays } from './sobriety';
+import { schedulerService, REMINDER_LABELS, parseTime, isValidTimezone, isQuietTime } from './scheduler';
+import { moodService, buildMoodKeyboard, formatJournalReport, exportJournalCsv, summarizeMood } from './mood';
+import { feedbackService, findRatedPair, createReplyId, FEEDBACK_REASONS } from './feedback';
+import { adminService, FEATURE_FLAGS, parseBroadcastFilter } from './admin';
+import { usageService } from './usage';
+import { privacyService, renderExportHtml, FORGET_CONFIRM_TTL_MS } from './privacy';
+import { promptService, getPromptPath, PromptValidationError, ResolvedPrompt } from './prompts';
+import { botServer, getWebhookPath, getWebhookSecret, useWebhook } from './server';
+import { buildPersonaKeyboard, describePersona, findPersona, resolvePersona, sanitizeCustomPersona } from './personas';
+
+// Feedback buttons under every reply, plus "continue" when the reply was truncated
+function buildReplyKeyboard(hasContinuation: boolean = false, replyId?: string): TelegramBot.InlineKeyboardMarkup {
+  const suffix = replyId ? `:${replyId}` : '';
+  const keyboard: TelegramBot.InlineKeyboardButton[][] = [
+    [
+      { text: '👍', callback_data: `like${suffix}` },
+      { text: '👎', callback_data: `dislike${suffix}` }
+    ]
+  ];
+  
+  if (hasContinuation) {
+    keyboard.push([{ text: '▶️ Продолжить', callback_data: 'continue' }]);
+  }
+  
+  return { inline_keyboard: keyboard };
 }
 
-// Function to safely send message with fallback
-async function safeSendMessage(bot: TelegramBot, chatId: number, text: string, options: any = {}) {
-  try {
-    // Try to send with Markdown first
-    await bot.sendMessage(chatId, text, { ...options, parse_mode: 'Markdown' });
-  } catch (error) {
-    // If Markdown fails, send without it
-    try {
-      await bot.sendMessage(chatId, cleanMarkdownText(text), options);
-    } catch (fallbackError) {
-      // If even clean text fails, send as plain text
-      await bot.sendMessage(chatId, text.replace(/[^\w\s\.,!?;:()\-'"\n]/g, ''), options);
-    }
+// Reads the reply id back from the 👍 button of a sent message
+function getReplyId(message?: Message): string | undefined {
+  const data = message?.reply_markup?.inline_keyboard?.[0]?.[0]?.callback_data;
+  return data?.startsWith('like:') ? data.slice('like:'.length) : undefined;
+}
+
+// What to tell the user when no reply could be generated
+function describeGenerationError(error: unknown, fallback: string = 'Извините, произошла ошибка. Попробуйте еще раз.'): string {
+  if (!(error instanceof GeminiError)) return fallback;
+  
+  switch (error.kind) {
+    case 'safety':
+      return 'Я не смог ответить на это сообщение — сработали ограничения безопасности. Это не про тебя и не про то, что ты чувствуешь. ' +
+        'Попробуй сказать иначе, а если сейчас тяжело — напиши, что происходит, и я постараюсь помочь 💙';
+    case 'rate_limit':
+    case 'overloaded':
+    case 'timeout':
+      return 'Я сейчас перегружен и не успел ответить 😔 Попробуй, пожалуйста, ещё раз через минуту.';
+    default:
+      return fallback;
   }
 }
 
+// Whether a group message mentions the bot or replies to one of its messages
+function isAddressedToBot(msg: Message, botInfo: TelegramBot.User): boolean {
+  const text = msg.text || msg.caption || '';
+  const isMentioned = !!botInfo.username && text.includes(`@${botInfo.username}`);
+  const isReplyToBot = msg.reply_to_message?.from?.id === botInfo.id;
+  return isMentioned || isReplyToBot;
+}
+
 // Initialize bot function
 async function initializeBot() {
   // Validate configuration
@@ -42,47 +101,148 @@ async function initializeBot() {
     process.exit(1);
   }
 
-  // Initialize bot
-  const bot = new TelegramBot(config.telegram.token, { polling: true });
-
-  // Load custom prompt
-  let customPrompt: any = {};
-  try {
-    const promptData = await fs.readFile('./src/prompt.json', 'utf-8');
-    customPrompt = JSON.parse(promptData);
-  } catch (error) {
-    logger.warn('Could not load custom prompt, using defaults');
-  }
+  // Initialize bot; in webhook mode updates arrive through botServer instead of polling
+  const webhookMode = useWebhook();
+  const bot = new TelegramBot(config.telegram.token, { polling: !webhookMode });
+  const botInfo = await bot.getMe();
 
   // Initialize context manager
   await contextManager.initialize();
 
-  // Load custom prompt into Gemini service
-  await geminiService.loadCustomPrompt();
+  // Load prompt profiles and watch the file for edits
+  await promptService.initialize();
 
   // Bot commands and handlers
   const commands = {
     start: '/start - Начать поддержку',
     help: '/help - Показать справку',
     reset: '/reset - Начать заново',
-    persona: '/persona <роль> - Изменить стиль общения',
-    memory: '/memory - Показать прогресс',
+    persona: '/persona - Выбрать роль бота',
+    memory: '/memory - Что я о тебе помню (можно исправить)',
+    summary: '/summary - Краткое содержание нашего разговора',
+    tracker: '/sobriety - Трекер трезвости: старт, срыв, прогресс',
+    checkin: '/checkin - Ежедневная отметка трезвости',
+    remind: '/remind - Напоминания и ежедневные проверки',
+    mood: '/mood [1-10] - Отметить настроение',
+    journal: '/journal - Дневник настроения и тренды',
+    timezone: '/timezone <зона> - Часовой пояс для напоминаний',
+    quiet: '/quiet <с> <до>|off - Тихие часы',
     stats: '/stats - Статистика восстановления',
+    voice: '/voice on|off - Голосовые ответы',
+    answers: '/answers - Длина и подход ответов',
+    group: '/group - Настройки бота в группе',
+    export: '/export - Выгрузить все мои данные',
+    forget: '/forget - Удалить все мои данные',
     support: '💬 Получить поддержку',
     sobriety: '🌿 Обсудить трезвость',
   };
 
+  // Whether a message gets an answer, is only recorded into a shared group history, or is ignored
+  const getReplyDecision = async (msg: Message): Promise<'reply' | 'record' | 'ignore'> => {
+    if (!isGroupChat(msg.chat.type)) return 'reply';
+    
+    const groupSettings = await contextManager.getGroupSettings(msg.chat.id);
+    if (groupSettings.replyMode === 'always' || isAddressedToBot(msg, botInfo)) return 'reply';
+    
+    return groupSettings.mode === 'shared' ? 'record' : 'ignore';
+  };
+
+  const rateLimiter = new TokenBucketLimiter(config.rateLimit.burst, config.rateLimit.perMinute);
+  const userQueue = new KeyedQueue();
+  
+  // Crisis screening needs Gemini too, so the hotlines go out with every refusal
+  const resourcesNotice = (): string =>
+    config.safety.enabled && config.safety.resources.length > 0
+      ? `\n\nЕсли тебе плохо прямо сейчас:\n${config.safety.resources.map((resource) => `• ${resource}`).join('\n')}`
+      : '';
+  
+  // The keyword screen costs nothing, so a refused message still gets the crisis reply when it needs one
+  const screenRefusedMessage = async (msg: Message): Promise<boolean> => {
+    const text = msg.text || msg.caption;
+    if (!config.safety.enabled || !text || !msg.from) return false;
+    
+    const assessment = safetyService.matchRules(text);
+    if (assessment.level !== 'high') return false;
+    
+    const sessionKey = await contextManager.resolveSessionKey(msg.chat.id, msg.from.id, msg.chat.type);
+    const prompt = await promptService.resolve(await contextManager.getSession(sessionKey));
+    await safeSendMessage(bot, msg.chat.id, safetyService.buildCrisisMessage(prompt.response_templates?.risk_protocol), {
+      ...(isGroupChat(msg.chat.type) && { reply_to_message_id: msg.message_id }),
+    });
+    await safetyService.reportIncident(bot, {
+      userId: msg.from.id,
+      chatId: msg.chat.id,
+      username: msg.from.username,
+      message: text,
+      assessment,
+    });
+    return true;
+  };
+  
+  // Spends one of the user's rate-limit tokens and checks the daily Gemini budget; tells the user when either runs out
+  const tryAcquireReply = async (chatId: number, userId: number, msg?: Message): Promise<boolean> => {
+    if (config.rateLimit.enabled && !rateLimiter.tryConsume(userId)) {
+      logger.warn('User throttled', { userId, chatId });
+      if (msg && await screenRefusedMessage(msg)) return false;
+      if (rateLimiter.shouldNotify(userId)) {
+        const seconds = Math.max(1, Math.ceil(rateLimiter.retryAfterMs(userId) / 1000));
+        await bot.sendMessage(chatId, `Ты пишешь быстрее, чем я успеваю думать 🙂 Дай мне ${seconds} сек. и отправь снова — я никуда не денусь.${resourcesNotice()}`);
+      }
+      return false;
+    }
+    
+    if (!adminService.isAdmin(userId) && await usageService.isOverBudget(userId)) {
+      logger.warn('Daily token budget exhausted', { userId, chatId });
+      if (msg && await screenRefusedMessage(msg)) return false;
+      await bot.sendMessage(chatId, `На сегодня я исчерпал лимит разговоров с тобой 😔 Завтра продолжим — я буду рад.${resourcesNotice()}`);
+      return false;
+    }
+    
+    return true;
+  };
+  
+  // Throttles messages and commands that will get a reply and runs each user's tasks strictly in order
+  const runUserTask = async (msg: Message, task: () => Promise<void>) => {
+    const userId = msg.from!.id;
+    // Before the rate limiter, so a banned user spends no tokens and gets no notices
+    if (await adminService.isBanned(userId)) return;
+    
+    // Commands always answer; group chatter the bot only records costs no Gemini call, so it spends no tokens
+    const isCommand = !!msg.text?.startsWith('/');
+    if ((isCommand || await getReplyDecision(msg) === 'reply') && !await tryAcquireReply(msg.chat.id, userId, msg)) return;
+    
+    await userQueue.run(userId, task);
+  };
+
+  // Registers a command handler behind the ban check, so a ban covers every command
+  const onCommand = (regexp: RegExp, handler: (msg: Message, match: RegExpExecArray | null) => Promise<void>) => {
+    bot.onText(regexp, async (msg: Message, match: RegExpExecArray | null) => {
+      // `/stats@otherbot` in a group is meant for another bot
+      const addressee = /^\/\w+@(\w+)/.exec(msg.text || '')?.[1];
+      if (addressee && addressee.toLowerCase() !== botInfo.username?.toLowerCase()) return;
+      
+      try {
+        if (msg.from && await adminService.isBanned(msg.from.id)) return;
+      } catch (error) {
+        logError(error as Error, 'ban check');
+        return;
+      }
+      await handler(msg, match);
+    });
+  };
+
   // Start command
-  bot.onText(/\/start/, async (msg: Message) => {
+  onCommand(/\/start/, async (msg: Message) => {
     const chatId = msg.chat.id;
     const userId = msg.from?.id;
     
     if (!userId) return;
     
     try {
-      await contextManager.getUserSession(chatId, userId, msg.from);
+      const session = await contextManager.getUserSession(chatId, userId, msg.from, msg.chat.type);
+      const prompt = await promptService.resolve(session);
       
-      const welcomeMessage = customPrompt.response_templates?.greeting || 
+      const welcomeMessage = prompt.response_templates?.greeting || 
         'Привет, Максим 🌿 Я рад, что ты здесь. Как ты себя чувствуешь сегодня?';
       
       await safeSendMessage(bot, chatId, welcomeMessage, {
@@ -108,33 +268,33 @@ async function initializeBot() {
   });
 
   // Help command
-  bot.onText(/\/help/, async (msg: Message) => {
+  onCommand(/\/help/, async (msg: Message) => {
     const chatId = msg.chat.id;
     const userId = msg.from?.id;
     
     if (!userId) return;
     
     const helpText = `
-🌿 *Поддержка и помощь*
+🌿 **Поддержка и помощь**
 
-*Основные команды:*
+**Основные команды:**
 ${Object.values(commands).join('\n')}
 
-*Как я могу помочь:*
+**Как я могу помочь:**
 • 💬 Эмоциональная поддержка и понимание
 • 🌿 Мотивация к трезвости и восстановлению
 • 🧠 Когнитивно-поведенческие техники
 • 💭 Работа с чувством вины и утратой
 • 😴 Помощь со сном и стрессом
 
-*Просто напиши мне:*
+**Просто напиши мне:**
 • Как ты себя чувствуешь
 • О своих переживаниях
 • О тяге к алкоголю
 • О проблемах со сном
 • О любых трудностях
 
-*Важно:* Я не заменяю врача, но всегда готов поддержать тебя 🙏
+**Важно:** Я не заменяю врача, но всегда готов поддержать тебя 🙏
     `;
     
     await safeSendMessage(bot, chatId, helpText);
@@ -142,14 +302,15 @@ ${Object.values(commands).join('\n')}
   });
 
   // Reset command
-  bot.onText(/\/reset/, async (msg: Message) => {
+  onCommand(/\/reset/, async (msg: Message) => {
     const chatId = msg.chat.id;
     const userId = msg.from?.id;
     
     if (!userId) return;
     
     try {
-      await contextManager.clearHistory(userId);
+      const sessionKey = await contextManager.resolveSessionKey(chatId, userId, msg.chat.type);
+      await contextManager.clearHistory(sessionKey);
       await bot.sendMessage(chatId, '🌿 Хорошо, Максим. Начинаем с чистого листа. Как ты себя чувствуешь сейчас?');
       logCommand(userId, 'reset');
     } catch (error) {
@@ -158,309 +319,1824 @@ ${Object.values(commands).join('\n')}
     }
   });
 
-  // Persona command
-  bot.onText(/\/persona (.+)/, async (msg: Message, match: RegExpExecArray | null) => {
+  // Data export command; open to banned users, like /forget: access to one's own data is not a privilege
+  bot.onText(/\/export(?:@\w+)?$/, async (msg: Message) => {
     const chatId = msg.chat.id;
     const userId = msg.from?.id;
-    const persona = match?.[1];
     
-    if (!userId || !persona) return;
+    if (!userId) return;
+    
+    // The archive holds private conversations, so it never goes to a group
+    if (msg.chat.type !== 'private') {
+      await bot.sendMessage(chatId, 'Выгрузка данных доступна только в личном чате с ботом.');
+      return;
+    }
     
     try {
-      await contextManager.updateUserMemory(userId, {
-        communicationStyle: persona
+      const data = await privacyService.exportData(userId);
+      await bot.sendDocument(chatId, Buffer.from(JSON.stringify(data, null, 2), 'utf-8'), {}, {
+        filename: 'my-data.json',
+        contentType: 'application/json',
+      });
+      await bot.sendDocument(chatId, Buffer.from(renderExportHtml(data), 'utf-8'), {
+        caption: '📦 Всё, что бот хранит о тебе: JSON для программ и HTML, который можно открыть в браузере.'
+      }, {
+        filename: 'my-data.html',
+        contentType: 'text/html',
+      });
+      logCommand(userId, 'export');
+    } catch (error) {
+      logError(error as Error, 'export command');
+      await bot.sendMessage(chatId, 'Ошибка при выгрузке данных.');
+    }
+  });
+
+  // Data deletion command; the erasure itself happens on the confirmation button. Open to banned users
+  bot.onText(/\/forget(?:@\w+)?$/, async (msg: Message) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId) return;
+    
+    if (msg.chat.type !== 'private') {
+      await bot.sendMessage(chatId, 'Удаление данных доступно только в личном чате с ботом.');
+      return;
+    }
+    
+    await bot.sendMessage(chatId, [
+      '⚠️ Я удалю всё, что храню о тебе: переписку, память, трекер трезвости, дневник настроения, напоминания, оценки ответов и записи в логах.',
+      'Восстановить это будет нельзя. Если нужна копия — сначала сделай /export.',
+      '',
+      'Удалить?',
+    ].join('\n'), {
+      reply_markup: {
+        inline_keyboard: [[
+          { text: '🗑 Да, удалить всё', callback_data: `forget:yes:${Date.now()}` },
+          { text: 'Отмена', callback_data: 'forget:no' }
+        ]]
+      }
+    });
+    logCommand(userId, 'forget');
+  });
+
+  // Persona picker; `/persona <роль>` sets a catalogue persona by id or a custom one
+  onCommand(/\/persona(?:@\w+)?(?:\s+([\s\S]+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    const argument = match?.[1]?.trim() || '';
+    
+    if (!userId) return;
+    
+    try {
+      // Queued with the user's messages, so this session write can't race a reply being saved
+      await userQueue.run(userId, async () => {
+        const userSession = await contextManager.getUserSession(chatId, userId, msg.from, msg.chat.type);
+        
+        if (!argument) {
+          const current = resolvePersona(userSession.settings);
+          const customHint = config.personas.allowCustom ? '\nИли опиши свою: /persona <роль>' : '';
+          await bot.sendMessage(chatId, `🎭 Роль сейчас: ${describePersona(current)}\n\nВыбери, как мне с тобой говорить:${customHint}`, {
+            reply_markup: buildPersonaKeyboard(current),
+          });
+          logCommand(userId, 'persona');
+          return;
+        }
+        
+        if (argument === 'off') {
+          await contextManager.updateSettings(userSession.sessionKey, { persona: undefined, customPersona: undefined });
+          await bot.sendMessage(chatId, 'Хорошо, говорю в своём обычном стиле 🌿');
+          logCommand(userId, 'persona', ['off']);
+          return;
+        }
+        
+        const preset = findPersona(argument.toLowerCase());
+        if (preset) {
+          await contextManager.updateSettings(userSession.sessionKey, { persona: preset.id, customPersona: undefined });
+          await safeSendMessage(bot, chatId, preset.greeting);
+          logCommand(userId, 'persona', [preset.id]);
+          return;
+        }
+        
+        if (!config.personas.allowCustom) {
+          await bot.sendMessage(chatId, 'Свои роли отключены — выбери из списка: /persona');
+          return;
+        }
+        
+        const custom = sanitizeCustomPersona(argument);
+        if (!custom.ok) {
+          await bot.sendMessage(chatId, custom.reason);
+          return;
+        }
+        
+        await contextManager.updateSettings(userSession.sessionKey, { persona: undefined, customPersona: custom.text });
+        await bot.sendMessage(chatId, `✅ Роль изменена на: ${custom.text}`);
+        logCommand(userId, 'persona', ['custom']);
       });
-      
-      await bot.sendMessage(chatId, `✅ Роль изменена на: ${persona}`);
-      logCommand(userId, 'persona', [persona]);
     } catch (error) {
       logError(error as Error, 'persona command');
       await bot.sendMessage(chatId, 'Ошибка при изменении роли.');
     }
   });
 
-  // Memory command
-  bot.onText(/\/memory/, async (msg: Message) => {
+  // Voice replies command
+  onCommand(/\/voice(?:@\w+)?(?:\s+(on|off))?$/, async (msg: Message, match: RegExpExecArray | null) => {
     const chatId = msg.chat.id;
     const userId = msg.from?.id;
     
     if (!userId) return;
     
     try {
-      const memory = await contextManager.getUserMemory(userId);
-      
-      if (!memory) {
-        await bot.sendMessage(chatId, 'Информация о пользователе не найдена.');
+      if (!textToSpeech) {
+        await bot.sendMessage(chatId, '🔇 Голосовые ответы не настроены на этом сервере.');
         return;
       }
       
-      const memoryText = `
+      const userSession = await contextManager.getUserSession(chatId, userId, msg.from, msg.chat.type);
+      const enabled = match?.[1] ? match[1] === 'on' : !userSession.settings?.voiceReplies;
+      
+      await contextManager.updateSettings(userSession.sessionKey, { voiceReplies: enabled });
+      await bot.sendMessage(chatId, enabled
+        ? '🔊 Буду дублировать ответы голосовым сообщением. Выключить: /voice off'
+        : '🔇 Голосовые ответы выключены. Включить: /voice on');
+      logCommand(userId, 'voice', [enabled ? 'on' : 'off']);
+    } catch (error) {
+      logError(error as Error, 'voice command');
+      await bot.sendMessage(chatId, 'Ошибка при изменении настройки.');
+    }
+  });
+
+  // Reply length and creativity, turned into generation parameters for this user
+  onCommand(/\/answers(?:@\w+)?(?:\s+([\s\S]+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId) return;
+    
+    try {
+      await runUserTask(msg, async () => {
+        const userSession = await contextManager.getUserSession(chatId, userId, msg.from, msg.chat.type);
+        const args = (match?.[1] || '').trim().toLowerCase().split(/\s+/).filter(Boolean);
+        
+        const changes: Record<string, string> = {};
+        for (const arg of args) {
+          if (Object.keys(RESPONSE_LENGTH_LABELS).includes(arg)) {
+            changes.response_length = arg;
+          } else if (Object.keys(CREATIVITY_LABELS).includes(arg)) {
+            changes.creativity = arg;
+          } else {
+            await bot.sendMessage(chatId, 'Использование: /answers short|normal|long precise|balanced|creative');
+            return;
+          }
+        }
+        
+        const updated = args.length > 0
+          ? await contextManager.updateSession(userSession.sessionKey, (current) => {
+            current.userMemory.preferences = { ...current.userMemory.preferences, ...changes };
+          })
+          : userSession;
+        const preferences = updated?.userMemory.preferences || {};
+        
+        const settingsText = `
+💬 Ответы:
+
+Длина: ${RESPONSE_LENGTH_LABELS[preferences.response_length as ResponseLength] || RESPONSE_LENGTH_LABELS.normal}
+Подход: ${CREATIVITY_LABELS[preferences.creativity as Creativity] || CREATIVITY_LABELS.balanced}
+
+Изменить: /answers short|normal|long precise|balanced|creative
+        `;
+        
+        await bot.sendMessage(chatId, settingsText);
+        logCommand(userId, 'answers', args.length > 0 ? args : undefined);
+      });
+    } catch (error) {
+      logError(error as Error, 'answers command');
+      await bot.sendMessage(chatId, 'Ошибка при изменении настройки.');
+    }
+  });
+
+  // Shows stored memory with a delete button per learned item
+  const sendMemoryOverview = async (chatId: number, sessionKey: string, editMessageId?: number) => {
+    const memory = await contextManager.getUserMemory(sessionKey);
+    
+    if (!memory) {
+      await bot.sendMessage(chatId, 'Информация о пользователе не найдена.');
+      return;
+    }
+    
+    const items = memory.items || [];
+    const kindLabels: Record<MemoryItemKind, string> = {
+      fact: 'факт',
+      interest: 'интерес',
+      goal: 'цель',
+      preference: 'предпочтение',
+    };
+    const itemsText = items.length > 0
+      ? items.map((item, i) => `${i + 1}. ${item.status === 'achieved' ? '✅ ' : ''}${item.text} (${kindLabels[item.kind]})`).join('\n')
+      : 'пока ничего — я запоминаю важное по ходу разговора';
+    
+    const memoryText = `
 🧠 Ваша память:
 
 Интересы: ${memory.interests.length > 0 ? memory.interests.join(', ') : 'не указаны'}
 Цели: ${memory.goals.length > 0 ? memory.goals.join(', ') : 'не указаны'}
 Стиль общения: ${memory.communicationStyle}
 Предпочтения: ${Object.keys(memory.preferences).length > 0 ? 
-        Object.entries(memory.preferences).map(([k, v]) => `${k}: ${v}`).join(', ') : 'не указаны'}
-      `;
-      
-      await safeSendMessage(bot, chatId, memoryText);
-      logCommand(userId, 'memory');
-    } catch (error) {
-      logError(error as Error, 'memory command');
-      await bot.sendMessage(chatId, 'Ошибка при получении информации.');
+      Object.entries(memory.preferences).map(([k, v]) => `${k}: ${v}`).join(', ') : 'не указаны'}
+
+Что я запомнил из разговоров:
+${itemsText}
+
+Исправить: /memory edit <номер> <текст>
+Добавить: /memory add <текст>
+Удалить: кнопкой ниже или /memory delete <номер>
+    `;
+    
+    // Five delete buttons per row
+    const buttons = items.map((item, i) => ({ text: `🗑 ${i + 1}`, callback_data: `memdel:${item.id}` }));
+    const inline_keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+    for (let i = 0; i < buttons.length; i += 5) {
+      inline_keyboard.push(buttons.slice(i, i + 5));
     }
-  });
+    
+    if (editMessageId) {
+      await safeEditMessage(bot, chatId, editMessageId, memoryText, { reply_markup: { inline_keyboard } });
+    } else {
+      await safeSendMessage(bot, chatId, memoryText, { reply_markup: { inline_keyboard } });
+    }
+  };
 
-  // Stats command
-  bot.onText(/\/stats/, async (msg: Message) => {
+  // Memory command
+  onCommand(/\/memory(?:@\w+)?(?:\s+([\s\S]+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
     const chatId = msg.chat.id;
     const userId = msg.from?.id;
     
     if (!userId) return;
     
     try {
-      const stats = await contextManager.getStatistics();
-      
-      const statsText = `
-📊 Статистика бота:
-
-👥 Всего пользователей: ${stats.totalUsers}
-💬 Всего сообщений: ${stats.totalMessages}
-🕒 Последний сброс: ${new Date(stats.lastReset).toLocaleString('ru-RU')}
-      `;
-      
-      await safeSendMessage(bot, chatId, statsText);
-      logCommand(userId, 'stats');
+      await runUserTask(msg, async () => {
+        const sessionKey = await contextManager.resolveSessionKey(chatId, userId, msg.chat.type);
+        const [action = '', ...rest] = (match?.[1] || '').trim().split(/\s+/);
+        const items = (await contextManager.getUserMemory(sessionKey))?.items || [];
+        const item = items[parseInt(rest[0]) - 1];
+        
+        switch (action) {
+          case '':
+            await sendMemoryOverview(chatId, sessionKey);
+            break;
+            
+          case 'add': {
+            const text = rest.join(' ');
+            if (!text) {
+              await bot.sendMessage(chatId, 'Использование: /memory add <что запомнить>');
+              break;
+            }
+            await memoryService.addItem(sessionKey, text);
+            await bot.sendMessage(chatId, '✅ Запомнил.');
+            break;
+          }
+            
+          case 'edit': {
+            const text = rest.slice(1).join(' ');
+            if (!item || !text) {
+              await bot.sendMessage(chatId, 'Использование: /memory edit <номер> <новый текст>');
+              break;
+            }
+            await memoryService.editItem(sessionKey, item.id, text);
+            await bot.sendMessage(chatId, `✏️ Исправил пункт ${rest[0]}.`);
+            break;
+          }
+            
+          case 'delete':
+            if (!item) {
+              await bot.sendMessage(chatId, 'Использование: /memory delete <номер>');
+              break;
+            }
+            await memoryService.deleteItem(sessionKey, item.id);
+            await bot.sendMessage(chatId, `🗑 Удалил пункт ${rest[0]}.`);
+            break;
+            
+          default:
+            await bot.sendMessage(chatId, 'Команды: /memory, /memory add, /memory edit, /memory delete');
+        }
+        
+        logCommand(userId, 'memory', action ? [action] : undefined);
+      });
     } catch (error) {
-      logError(error as Error, 'stats command');
-      await bot.sendMessage(chatId, 'Ошибка при получении статистики.');
+      logError(error as Error, 'memory command');
+      await bot.sendMessage(chatId, 'Ошибка при получении информации.');
     }
   });
 
-  // Handle text messages
-  bot.on('message', async (msg: Message) => {
+  // Summary command
+  onCommand(/\/summary(?:@\w+)?$/, async (msg: Message) => {
     const chatId = msg.chat.id;
     const userId = msg.from?.id;
-    const text = msg.text;
     
-    if (!userId || !text || text.startsWith('/')) return;
+    if (!userId) return;
     
     try {
-      // Log user message
-      logUserMessage(userId, text);
-      
-      // Get or create user session
-      const userSession = await contextManager.getUserSession(chatId, userId, msg.from);
-      
-      // Add user message to history
-      await contextManager.addMessage(userId, {
-        role: 'user',
-        content: text,
-        timestamp: Date.now(),
-        messageType: 'text',
-      });
-      
-      // Show typing indicator
-      await bot.sendChatAction(chatId, 'typing');
-      
-      // Get user memory for context
-      const userMemory = await contextManager.getUserMemory(userId);
-      
-      // Get conversation history
-      const history = await contextManager.getHistory(userId);
-      
-      // Generate AI response
-      const startTime = Date.now();
-      const response = await geminiService.generateResponse(history, userMemory);
-      const processingTime = Date.now() - startTime;
-      
-      // Add AI response to history
-      await contextManager.addMessage(userId, {
-        role: 'assistant',
-        content: response.text,
-        timestamp: Date.now(),
-      });
-      
-      // Send response safely
-      await safeSendMessage(bot, chatId, response.text, { 
-        reply_markup: {
-          inline_keyboard: [
-            [
-              { text: '👍', callback_data: 'like' },
-              { text: '👎', callback_data: 'dislike' }
-            ]
-          ]
+      await runUserTask(msg, async () => {
+        const sessionKey = await contextManager.resolveSessionKey(chatId, userId, msg.chat.type);
+        const session = await contextManager.getSession(sessionKey);
+        const summary = session?.summary;
+        
+        if (!summary) {
+          await bot.sendMessage(chatId, '📝 Пока нечего сжимать — весь наш разговор я помню дословно.');
+        } else {
+          const updatedAt = new Date(summary.updatedAt).toLocaleString('ru-RU');
+          await safeSendMessage(bot, chatId, `📝 **О чём мы говорили раньше** (${summary.messageCount} сообщ., обновлено ${updatedAt}):\n\n${summary.text}`);
         }
+        
+        logCommand(userId, 'summary');
       });
-      
-      // Log bot response
-      logBotResponse(userId, response.text, processingTime);
-      
     } catch (error) {
-      logError(error as Error, 'text message handling');
-      await bot.sendMessage(chatId, 'Извините, произошла ошибка. Попробуйте еще раз.');
+      logError(error as Error, 'summary command');
+      await bot.sendMessage(chatId, 'Ошибка при получении краткого содержания.');
     }
   });
 
-  // Handle photo messages
-  bot.on('photo', async (msg: Message) => {
+  // Sobriety is tracked per person, so shared group sessions are left out
+  const getPersonalSessionKey = async (chatId: number, from: TelegramBot.User, chatType?: string) => {
+    const session = await contextManager.getUserSession(chatId, from.id, from, chatType);
+    return session.userId === 0 ? null : session.sessionKey;
+  };
+
+  const checkInKeyboard: TelegramBot.InlineKeyboardMarkup = {
+    inline_keyboard: [[
+      { text: '✅ Сегодня трезв', callback_data: 'checkin:sober' },
+      { text: '⚠️ Был срыв', callback_data: 'checkin:relapse' }
+    ]]
+  };
+
+  // Shows personal progress, or offers to start counting
+  const sendSobrietyProgress = async (chatId: number, sessionKey: string) => {
+    const session = await contextManager.getSession(sessionKey);
+    const tracker = session?.sobriety;
+    
+    if (!session || !tracker) {
+      await bot.sendMessage(chatId, '🌿 Давай отслеживать трезвость: я буду считать дни, отмечать вехи и помнить о срывах без осуждения.\n\nНачать с сегодня — кнопкой ниже, с другой даты — /sobriety start ДД.ММ.ГГГГ', {
+        reply_markup: { inline_keyboard: [[{ text: '🌿 Начать отсчёт', callback_data: 'sobriety:start' }]] }
+      });
+      return;
+    }
+    
+    await safeSendMessage(bot, chatId, sobrietyService.formatProgress(tracker, getUserTimezone(session)), { reply_markup: checkInKeyboard });
+  };
+
+  const sendCheckInResult = async (chatId: number, sessionKey: string) => {
+    const result = await sobrietyService.checkIn(sessionKey);
+    if (!result) {
+      await sendSobrietyProgress(chatId, sessionKey);
+      return;
+    }
+    
+    const streak = formatDays(result.status.streakDays);
+    await bot.sendMessage(chatId, result.alreadyCheckedIn
+      ? `Сегодня ты уже отмечался. Трезвость: ${streak} 🌿`
+      : `✅ Отмечено. Трезвость: ${streak}. Ещё один день в копилку.`);
+    
+    if (result.milestone) {
+      await bot.sendMessage(chatId, `🎉 ${formatDays(result.milestone)} трезвости! Это реальный результат твоих решений — день за днём. Что помогло больше всего?`);
+    }
+  };
+
+  const sendRelapseResponse = async (chatId: number, sessionKey: string, endedStreak: number) => {
+    const prompt = await promptService.resolve(await contextManager.getSession(sessionKey));
+    const support = prompt.response_templates?.relapse_response ||
+      'Срыв — это сигнал, а не приговор. Разберём без самоизбиения, что его вызвало.';
+    await bot.sendMessage(chatId, `${support}\n\nСерия в ${formatDays(endedStreak)} сохранена в истории, отсчёт начинается заново. Добавить заметку: /sobriety relapse <что произошло>`);
+  };
+
+  // Sobriety tracker command
+  onCommand(/\/sobriety(?:@\w+)?(?:\s+([\s\S]+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
     const chatId = msg.chat.id;
     const userId = msg.from?.id;
     
     if (!userId) return;
     
     try {
-      // Get the largest photo
-      const photo = msg.photo?.[msg.photo.length - 1];
-      if (!photo) return;
-      
-      // Download photo
-      const fileLink = await bot.getFileLink(photo.file_id);
-      const response = await fetch(fileLink);
-      const imageBuffer = Buffer.from(await response.arrayBuffer());
-      
-      // Log image message
-      logUserMessage(userId, '[IMAGE]', 'image');
-      
-      // Get user session
-      const userSession = await contextManager.getUserSession(chatId, userId, msg.from);
-      
-      // Show typing indicator
-      await bot.sendChatAction(chatId, 'typing');
-      
-      // Analyze image
-      const analysis = await geminiService.analyzeImage(imageBuffer);
-      
-      // Add to history
-      await contextManager.addMessage(userId, {
-        role: 'user',
-        content: '[Изображение отправлено]',
-        timestamp: Date.now(),
-        messageType: 'image',
-      });
-      
-      await contextManager.addMessage(userId, {
-        role: 'assistant',
-        content: analysis,
-        timestamp: Date.now(),
+      await userQueue.run(userId, async () => {
+        const sessionKey = await getPersonalSessionKey(chatId, msg.from!, msg.chat.type);
+        if (!sessionKey) {
+          await bot.sendMessage(chatId, 'Трекер трезвости личный — напиши мне в личные сообщения.');
+          return;
+        }
+        
+        const [action = '', ...rest] = (match?.[1] || '').trim().split(/\s+/);
+        
+        switch (action) {
+          case '':
+            await sendSobrietyProgress(chatId, sessionKey);
+            break;
+            
+          case 'start': {
+            const session = await contextManager.getSession(sessionKey);
+            const startDate = rest[0] ? parseStartDate(rest[0], session ? getUserTimezone(session) : config.scheduler.defaultTimezone) : Date.now();
+            if (startDate === null) {
+              await bot.sendMessage(chatId, 'Использование: /sobriety start [ДД.ММ.ГГГГ] — дата не может быть в будущем');
+              break;
+            }
+            const status = await sobrietyService.start(sessionKey, startDate);
+            await bot.sendMessage(chatId, `🌿 Отсчёт начат. Трезвость: ${formatDays(status?.streakDays || 0)}. Отмечайся каждый день: /checkin`);
+            break;
+          }
+            
+          case 'relapse': {
+            const endedStreak = await sobrietyService.logRelapse(sessionKey, rest.join(' ') || undefined);
+            if (endedStreak === null) {
+              await sendSobrietyProgress(chatId, sessionKey);
+              break;
+            }
+            await sendRelapseResponse(chatId, sessionKey, endedStreak);
+            break;
+          }
+            
+          default:
+            await bot.sendMessage(chatId, 'Команды: /sobriety, /sobriety start [ДД.ММ.ГГГГ], /sobriety relapse [заметка], /checkin');
+        }
+        
+        logCommand(userId, 'sobriety', action ? [action] : undefined);
       });
-      
-      // Send analysis
-      await safeSendMessage(bot, chatId, `🖼️ Анализ изображения:\n\n${analysis}`);
-      
-      logBotResponse(userId, analysis, 0);
-      
     } catch (error) {
-      logError(error as Error, 'photo handling');
-      await bot.sendMessage(chatId, 'Ошибка при анализе изображения.');
+      logError(error as Error, 'sobriety command');
+      await bot.sendMessage(chatId, 'Ошибка трекера трезвости.');
     }
   });
 
-  // Handle voice messages
-  bot.on('voice', async (msg: Message) => {
+  // Daily check-in command
+  onCommand(/\/checkin(?:@\w+)?$/, async (msg: Message) => {
     const chatId = msg.chat.id;
     const userId = msg.from?.id;
     
-    if (!userId || !config.bot.enableVoiceRecognition) return;
+    if (!userId) return;
     
     try {
-      // Download voice file
-      const fileLink = await bot.getFileLink(msg.voice!.file_id);
-      const response = await fetch(fileLink);
-      const voiceBuffer = Buffer.from(await response.arrayBuffer());
-      
-      // Log voice message
-      logUserMessage(userId, '[VOICE]', 'voice');
-      
-      // For now, just acknowledge the voice message
-      // In a real implementation, you would use speech-to-text API
-      await bot.sendMessage(chatId, '🎤 Голосовое сообщение получено! К сожалению, распознавание речи пока не настроено.');
-      
+      await userQueue.run(userId, async () => {
+        const sessionKey = await getPersonalSessionKey(chatId, msg.from!, msg.chat.type);
+        if (!sessionKey) {
+          await bot.sendMessage(chatId, 'Трекер трезвости личный — напиши мне в личные сообщения.');
+          return;
+        }
+        
+        if (!(await sobrietyService.getTracker(sessionKey))) {
+          await sendSobrietyProgress(chatId, sessionKey);
+        } else {
+          await bot.sendMessage(chatId, '🌿 Как прошёл день — без алкоголя?', { reply_markup: checkInKeyboard });
+        }
+        
+        logCommand(userId, 'checkin');
+      });
     } catch (error) {
-      logError(error as Error, 'voice handling');
-      await bot.sendMessage(chatId, 'Ошибка при обработке голосового сообщения.');
+      logError(error as Error, 'checkin command');
+      await bot.sendMessage(chatId, 'Ошибка трекера трезвости.');
     }
   });
 
-  // Handle callback queries (inline buttons)
-  bot.on('callback_query', async (callbackQuery: CallbackQuery) => {
-    const chatId = callbackQuery.message?.chat.id;
-    const userId = callbackQuery.from.id;
-    const data = callbackQuery.data;
+  // Lists reminders with a delete button for each
+  const sendReminderList = async (chatId: number, sessionKey: string, editMessageId?: number) => {
+    const session = await contextManager.getSession(sessionKey);
+    if (!session) return;
     
-    if (!chatId || !data) return;
+    const schedule = schedulerService.getSchedule(session);
+    const reminders = schedule.reminders;
+    const quietText = schedule.quietHours ? `${schedule.quietHours.start}–${schedule.quietHours.end}` : 'выключены';
+    const remindersText = reminders.length > 0
+      ? reminders.map((reminder, i) => {
+          const when = reminder.repeat === 'daily'
+            ? `каждый день в ${reminder.time}`
+            : `${reminder.date!.split('-').reverse().join('.')} в ${reminder.time}`;
+          return `${i + 1}. ${REMINDER_LABELS[reminder.kind]}: ${when}${reminder.text ? ` — ${reminder.text}` : ''}`;
+        }).join('\n')
+      : 'пока нет';
+    
+    const listText = `
+⏰ Напоминания:
+${remindersText}
+
+Часовой пояс: ${schedule.timezone} (/timezone)
+Тихие часы: ${quietText} (/quiet)
+
+Добавить:
+/remind 21:00 вести дневник — один раз
+/remind daily 21:00 вести дневник — каждый день
+/remind mood 20:00 — проверка настроения
+/remind meds 09:00 [название] — лекарство
+/remind sleep 23:00 — подготовка ко сну
+Удалить: кнопкой ниже или /remind delete <номер>
+    `;
+    
+    const buttons = reminders.map((reminder, i) => ({ text: `🗑 ${i + 1}`, callback_data: `remdel:${reminder.id}` }));
+    const inline_keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+    for (let i = 0; i < buttons.length; i += 5) {
+      inline_keyboard.push(buttons.slice(i, i + 5));
+    }
+    
+    if (editMessageId) {
+      await safeEditMessage(bot, chatId, editMessageId, listText, { reply_markup: { inline_keyboard } });
+    } else {
+      await safeSendMessage(bot, chatId, listText, { reply_markup: { inline_keyboard } });
+    }
+  };
+
+  // Reminders command
+  onCommand(/\/remind(?:@\w+)?(?:\s+([\s\S]+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId) return;
     
     try {
-      switch (data) {
-        case 'support':
-          await bot.answerCallbackQuery(callbackQuery.id);
-          await bot.sendMessage(chatId, '💬 Я здесь, чтобы поддержать тебя. Расскажи, как дела? Что беспокоит?');
-          break;
-          
-        case 'reset':
-          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Начинаем заново 🌿' });
-          await contextManager.clearHistory(userId);
-          break;
+      await userQueue.run(userId, async () => {
+        if (!config.scheduler.enabled) {
+          await bot.sendMessage(chatId, '⏰ Напоминания не включены на этом сервере.');
+          return;
+        }
+        
+        const sessionKey = await getPersonalSessionKey(chatId, msg.from!, msg.chat.type);
+        if (!sessionKey) {
+          await bot.sendMessage(chatId, 'Напоминания личные — напиши мне в личные сообщения.');
+          return;
+        }
+        
+        const args = (match?.[1] || '').trim().split(/\s+/).filter(Boolean);
+        const kinds: Record<string, ReminderKind> = { mood: 'mood', meds: 'medication', sleep: 'sleep', daily: 'custom' };
+        const action = args[0] || '';
+        
+        if (!action) {
+          await sendReminderList(chatId, sessionKey);
+        } else if (action === 'delete') {
+          const session = await contextManager.getSession(sessionKey);
+          const reminder = session?.schedule?.reminders[parseInt(args[1]) - 1];
+          if (!reminder) {
+            await bot.sendMessage(chatId, 'Использование: /remind delete <номер>');
+          } else {
+            await schedulerService.removeReminder(sessionKey, reminder.id);
+            await bot.sendMessage(chatId, `🗑 Удалил напоминание ${args[1]}.`);
+          }
+        } else {
+          // "/remind 21:00 text" is a one-off; a leading kind makes it daily
+          const kind = kinds[action];
+          const timeArg = kind ? args[1] : args[0];
+          const text = (kind ? args.slice(2) : args.slice(1)).join(' ') || undefined;
+          const time = timeArg ? parseTime(timeArg) : null;
           
-        case 'sobriety':
-          await bot.answerCallbackQuery(callbackQuery.id);
-          await bot.sendMessage(chatId, '🌿 Каждый трезвый день — это победа. Как проходит твоя трезвость? Есть ли тяга?');
-          break;
+          if (!time || (!text && (!kind || kind === 'custom'))) {
+            await bot.sendMessage(chatId, 'Использование: /remind [daily|mood|meds|sleep] ЧЧ:ММ [текст]. Список: /remind');
+            return;
+          }
           
-        case 'stats':
-          await bot.answerCallbackQuery(callbackQuery.id);
-          const stats = await contextManager.getStatistics();
-          await bot.sendMessage(chatId, `📊 Твоя статистика: ${stats.totalMessages} сообщений поддержки. Каждый разговор — шаг к восстановлению 💪`);
-          break;
+          const reminder = await schedulerService.addReminder(sessionKey, {
+            kind: kind || 'custom',
+            time,
+            repeat: kind ? 'daily' : 'once',
+            text,
+          });
           
-        case 'like':
-          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Рад, что помог! 🙏' });
-          break;
+          if (!reminder) {
+            await bot.sendMessage(chatId, `Можно держать не больше ${config.scheduler.maxRemindersPerUser} напоминаний. Удали лишние: /remind`);
+            return;
+          }
           
-        case 'dislike':
-          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Понял, попробуем по-другому 💭' });
-          break;
-      }
+          const session = await contextManager.getSession(sessionKey);
+          const schedule = schedulerService.getSchedule(session!);
+          const [hours, minutes] = time.split(':').map(Number);
+          const quietWarning = isQuietTime(schedule, hours * 60 + minutes)
+            ? '\n\n🌙 Это время попадает в тихие часы — напоминание придёт, когда они закончатся. Изменить: /quiet'
+            : '';
+          await bot.sendMessage(chatId, `✅ ${REMINDER_LABELS[reminder.kind]}: ${reminder.repeat === 'daily' ? 'каждый день' : 'один раз'} в ${time} (${schedule.timezone}).${quietWarning}`);
+        }
+        
+        logCommand(userId, 'remind', action ? [action] : undefined);
+      });
     } catch (error) {
-      logError(error as Error, 'callback query handling');
+      logError(error as Error, 'remind command');
+      await bot.sendMessage(chatId, 'Ошибка при настройке напоминания.');
     }
   });
 
-  // Error handling
-  bot.on('error', (error: Error) => {
-    logError(error, 'bot error');
-  });
-
-  bot.on('polling_error', (error: Error) => {
-    logError(error, 'polling error');
-  });
-
-  // Graceful shutdown
-  process.on('SIGINT', async () => {
-    logger.info('Shutting down bot...');
-    await bot.stopPolling();
-    process.exit(0);
+  // Timezone command
+  onCommand(/\/timezone(?:@\w+)?(?:\s+(\S+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId) return;
+    
+    try {
+      await userQueue.run(userId, async () => {
+        const sessionKey = await getPersonalSessionKey(chatId, msg.from!, msg.chat.type);
+        if (!sessionKey) {
+          await bot.sendMessage(chatId, 'Часовой пояс настраивается в личных сообщениях.');
+          return;
+        }
+        
+        const timezone = match?.[1];
+        if (!timezone || !isValidTimezone(timezone)) {
+          const session = await contextManager.getSession(sessionKey);
+          await bot.sendMessage(chatId, `Текущий часовой пояс: ${schedulerService.getSchedule(session!).timezone}\nИзменить: /timezone Europe/Moscow (название из базы IANA)`);
+          return;
+        }
+        
+        await schedulerService.setTimezone(sessionKey, timezone);
+        await bot.sendMessage(chatId, `🌍 Часовой пояс: ${timezone}. Напоминания будут приходить по местному времени.`);
+        logCommand(userId, 'timezone', [timezone]);
+      });
+    } catch (error) {
+      logError(error as Error, 'timezone command');
+      await bot.sendMessage(chatId, 'Ошибка при изменении часового пояса.');
+    }
   });
 
-  process.on('SIGTERM', async () => {
-    logger.info('Shutting down bot...');
-    await bot.stopPolling();
-    process.exit(0);
+  // Quiet hours command
+  onCommand(/\/quiet(?:@\w+)?(?:\s+(\S+))?(?:\s+(\S+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId) return;
+    
+    try {
+      await userQueue.run(userId, async () => {
+        const sessionKey = await getPersonalSessionKey(chatId, msg.from!, msg.chat.type);
+        if (!sessionKey) {
+          await bot.sendMessage(chatId, 'Тихие часы настраиваются в личных сообщениях.');
+          return;
+        }
+        
+        if (match?.[1] === 'off') {
+          await schedulerService.setQuietHours(sessionKey, null);
+          await bot.sendMessage(chatId, '🔔 Тихие часы выключены.');
+          logCommand(userId, 'quiet', ['off']);
+          return;
+        }
+        
+        const start = match?.[1] ? parseTime(match[1]) : null;
+        const end = match?.[2] ? parseTime(match[2]) : null;
+        if (!start || !end || start === end) {
+          await bot.sendMessage(chatId, 'Использование: /quiet 23:00 08:00 или /quiet off');
+          return;
+        }
+        
+        await schedulerService.setQuietHours(sessionKey, { start, end });
+        await bot.sendMessage(chatId, `🌙 Тихие часы: ${start}–${end}. Напоминания, выпавшие на это время, придут, когда они закончатся.`);
+        logCommand(userId, 'quiet', [start, end]);
+      });
+    } catch (error) {
+      logError(error as Error, 'quiet command');
+      await bot.sendMessage(chatId, 'Ошибка при настройке тихих часов.');
+    }
   });
 
-  // Start the bot
-  logger.info('🤖 Telegram bot started successfully!');
-  logger.info(`📊 Configuration: ${config.gemini.model}, max history: ${config.bot.maxHistoryLength}`);
+  // Switches the journal report between periods
+  const buildJournalKeyboard = (period: 'week' | 'month'): TelegramBot.InlineKeyboardMarkup => ({
+    inline_keyboard: [[
+      period === 'week'
+        ? { text: '📅 4 недели', callback_data: 'journal:month' }
+        : { text: '📅 Неделя', callback_data: 'journal:week' },
+      { text: '🙂 Оценить сейчас', callback_data: 'journal:rate' }
+    ]]
+  });
+
+  // Mood rating command
+  onCommand(/\/mood(?:@\w+)?(?:\s+(\d{1,2}))?(?:\s+([\s\S]+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId) return;
+    
+    try {
+      await userQueue.run(userId, async () => {
+        const sessionKey = await getPersonalSessionKey(chatId, msg.from!, msg.chat.type);
+        if (!sessionKey) {
+          await bot.sendMessage(chatId, 'Дневник настроения личный — напиши мне в личные сообщения.');
+          return;
+        }
+        
+        const rating = match?.[1] ? parseInt(match[1]) : undefined;
+        if (rating === undefined) {
+          await bot.sendMessage(chatId, '🙂 Как настроение прямо сейчас, от 1 до 10?', { reply_markup: buildMoodKeyboard() });
+        } else if (rating < 1 || rating > 10) {
+          await bot.sendMessage(chatId, 'Оценка — от 1 до 10. Например: /mood 6 устал, но спокоен');
+        } else {
+          await moodService.addRating(sessionKey, rating, match?.[2]?.trim());
+          await bot.sendMessage(chatId, `📔 Записал: ${rating}/10. Тренды: /journal`);
+        }
+        
+        logCommand(userId, 'mood', rating !== undefined ? [String(rating)] : undefined);
+      });
+    } catch (error) {
+      logError(error as Error, 'mood command');
+      await bot.sendMessage(chatId, 'Ошибка дневника настроения.');
+    }
+  });
+
+  // Mood journal command
+  onCommand(/\/journal(?:@\w+)?(?:\s+([\s\S]+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId) return;
+    
+    try {
+      await runUserTask(msg, async () => {
+        const sessionKey = await getPersonalSessionKey(chatId, msg.from!, msg.chat.type);
+        if (!sessionKey) {
+          await bot.sendMessage(chatId, 'Дневник настроения личный — напиши мне в личные сообщения.');
+          return;
+        }
+        
+        const [action = '', ...rest] = (match?.[1] || '').trim().split(/\s+/);
+        const session = await contextManager.getSession(sessionKey);
+        
+        switch (action) {
+          case '':
+          case 'week':
+          case 'month': {
+            const period = action === 'month' ? 'month' : 'week';
+            await safeSendMessage(bot, chatId, formatJournalReport(session!, period), {
+              reply_markup: buildJournalKeyboard(period)
+            });
+            break;
+          }
+            
+          case 'add': {
+            const text = rest.join(' ');
+            if (!text) {
+              await bot.sendMessage(chatId, 'Использование: /journal add <как ты себя чувствуешь>');
+              break;
+            }
+            const entry = await moodService.addEntry(sessionKey, userId, text);
+            await bot.sendMessage(chatId, `📔 Записал${entry?.emotion ? ` (${entry.emotion})` : ''}.`);
+            break;
+          }
+            
+          case 'export': {
+            if (!session?.moodJournal?.length) {
+              await bot.sendMessage(chatId, 'В дневнике пока нет записей.');
+              break;
+            }
+            await bot.sendDocument(chatId, Buffer.from(exportJournalCsv(session), 'utf-8'), {}, {
+              filename: 'mood-journal.csv',
+              contentType: 'text/csv',
+            });
+            break;
+          }
+            
+          default:
+            await bot.sendMessage(chatId, 'Команды: /journal, /journal month, /journal add <текст>, /journal export, /mood [1-10]');
+        }
+        
+        logCommand(userId, 'journal', action ? [action] : undefined);
+      });
+    } catch (error) {
+      logError(error as Error, 'journal command');
+      await bot.sendMessage(chatId, 'Ошибка дневника настроения.');
+    }
+  });
+
+  // Rated replies, for admins tuning the prompt
+  onCommand(/\/feedback(?:@\w+)?(?:\s+(\w+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId || !adminService.isAdmin(userId)) return;
+    
+    try {
+      const action = match?.[1] || '';
+      
+      if (action === 'export') {
+        const jsonl = await feedbackService.exportJsonl();
+        if (!jsonl) {
+          await bot.sendMessage(chatId, 'Оценок пока нет.');
+          return;
+        }
+        await bot.sendDocument(chatId, Buffer.from(jsonl, 'utf-8'), {}, {
+          filename: 'feedback.jsonl',
+          contentType: 'application/x-ndjson',
+        });
+      } else {
+        const stats = await feedbackService.getStats();
+        const versions = Object.entries(stats.byPromptVersion)
+          .map(([version, counts]) => `• ${version}: 👍 ${counts.likes} / 👎 ${counts.dislikes}`);
+        const lines = [
+          '📝 Оценки ответов:',
+          '',
+          `👍 ${stats.likes}   👎 ${stats.dislikes}`,
+          ...(versions.length > 0 ? ['', 'По версиям промпта:', ...versions] : []),
+          '',
+          'Выгрузка: /feedback export',
+        ];
+        await safeSendMessage(bot, chatId, lines.join('\n'));
+      }
+      
+      logCommand(userId, 'feedback', action ? [action] : undefined);
+    } catch (error) {
+      logError(error as Error, 'feedback command');
+      await bot.sendMessage(chatId, 'Ошибка при получении оценок.');
+    }
+  });
+
+  // Stats command: global counters for admins, personal progress for everyone else
+  onCommand(/\/stats(?:@\w+)?$/, async (msg: Message) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId) return;
+    
+    try {
+      if (!adminService.isAdmin(userId)) {
+        const sessionKey = await getPersonalSessionKey(chatId, msg.from!, msg.chat.type);
+        if (!sessionKey) {
+          await bot.sendMessage(chatId, 'Личный прогресс доступен в личном чате.');
+          return;
+        }
+        await sendSobrietyProgress(chatId, sessionKey);
+        logCommand(userId, 'stats');
+        return;
+      }
+      
+      const stats = await contextManager.getStatistics();
+      
+      const statsText = `
+📊 Статистика бота:
+
+👥 Всего пользователей: ${stats.totalUsers}
+💬 Всего сообщений: ${stats.totalMessages}
+🕒 Последний сброс: ${new Date(stats.lastReset).toLocaleString('ru-RU')}
+      `;
+      
+      await safeSendMessage(bot, chatId, statsText);
+      logCommand(userId, 'stats');
+    } catch (error) {
+      logError(error as Error, 'stats command');
+      await bot.sendMessage(chatId, 'Ошибка при получении статистики.');
+    }
+  });
+
+  // Admin commands; invisible to everyone not listed in ADMIN_IDS
+  onCommand(/\/admin(?:@\w+)?(?:\s+([\s\S]+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId || !adminService.isAdmin(userId)) return;
+    
+    const args = (match?.[1] || '').trim();
+    const [action = '', ...rest] = args.split(/\s+/);
+    
+    try {
+      switch (action) {
+        case 'users':
+          await sendLongMessage(bot, chatId, await adminService.formatUserList(parseInt(rest[0]) || 1));
+          break;
+          
+        case 'user': {
+          const targetId = parseInt(rest[0]);
+          const report = isNaN(targetId) ? null : await adminService.formatUser(targetId);
+          await sendLongMessage(bot, chatId, report || 'Пользователь не найден. Использование: /admin user <id>');
+          break;
+        }
+          
+        case 'session': {
+          const report = rest[0] ? await adminService.formatSession(rest[0], parseInt(rest[1]) || 10) : null;
+          await sendLongMessage(bot, chatId, report || 'Сессия не найдена. Использование: /admin session <ключ> [сколько сообщений]');
+          break;
+        }
+          
+        case 'reset': {
+          const session = rest[0] ? await contextManager.getSession(rest[0]) : null;
+          if (!session) {
+            await bot.sendMessage(chatId, 'Сессия не найдена. Использование: /admin reset <ключ>');
+            break;
+          }
+          await contextManager.clearHistory(session.sessionKey);
+          logger.warn('Session reset by admin', { sessionKey: session.sessionKey, adminId: userId });
+          await bot.sendMessage(chatId, `🔄 История ${session.sessionKey} очищена.`);
+          break;
+        }
+          
+        case 'broadcast': {
+          const filter = parseBroadcastFilter(rest[0] || '');
+          const text = args.replace(/^\S+\s+\S+\s*/, '');
+          if (!filter || !text || rest.length < 2) {
+            await bot.sendMessage(chatId, 'Использование: /admin broadcast <all|active:ДНЕЙ|sobriety> <текст>');
+            break;
+          }
+          await bot.sendMessage(chatId, '📣 Рассылка началась, пришлю итог.');
+          // Runs in the background: a large audience takes minutes at the allowed rate
+          adminService.broadcast(bot, text, filter)
+            .then(({ sent, failed }) => bot.sendMessage(chatId, `📣 Рассылка завершена: доставлено ${sent}, ошибок ${failed}.`))
+            .catch((error) => logError(error as Error, 'broadcast'));
+          break;
+        }
+          
+        case 'ban': {
+          const targetId = parseInt(rest[0]);
+          if (isNaN(targetId) || adminService.isAdmin(targetId)) {
+            await bot.sendMessage(chatId, 'Использование: /admin ban <id> [причина] (админов заблокировать нельзя)');
+            break;
+          }
+          await adminService.ban(targetId, userId, rest.slice(1).join(' ') || undefined);
+          await bot.sendMessage(chatId, `🚫 Пользователь ${targetId} заблокирован.`);
+          break;
+        }
+          
+        case 'unban': {
+          const targetId = parseInt(rest[0]);
+          const unbanned = !isNaN(targetId) && await adminService.unban(targetId, userId);
+          await bot.sendMessage(chatId, unbanned ? `✅ Пользователь ${targetId} разблокирован.` : 'Этот пользователь не заблокирован.');
+          break;
+        }
+          
+        case 'bans':
+          await sendLongMessage(bot, chatId, await adminService.formatBans());
+          break;
+          
+        case 'reload': {
+          let profiles: ResolvedPrompt[];
+          try {
+            profiles = await promptService.reload();
+          } catch (error) {
+            // The running prompt stays in place when the new file is broken
+            const details = error instanceof PromptValidationError ? error.errors.join('\n') : (error as Error).message;
+            await bot.sendMessage(chatId, `Промпт не загружен, остаётся прежний:\n${details}`);
+            break;
+          }
+          logger.info('Prompt reloaded by admin', { adminId: userId, versions: profiles.map((profile) => profile.version) });
+          await bot.sendMessage(chatId, `✅ Промпт перечитан: ${profiles.map((profile) => profile.version).join(', ')}.`);
+          break;
+        }
+          
+        case 'prompt': {
+          const [target = '', id = '', name = ''] = rest;
+          if (target !== 'user' && target !== 'chat') {
+            const lines = promptService.list().map((profile) =>
+              `• ${profile.version}${profile.name === promptService.getDefault().name ? ' (по умолчанию)' : ''}`);
+            await bot.sendMessage(chatId, [
+              `📝 Профили промпта (${getPromptPath()}):`,
+              ...lines,
+              '',
+              'Назначить: /admin prompt user <id> <профиль|default>, /admin prompt chat <id чата> <профиль|default>',
+            ].join('\n'));
+            break;
+          }
+          
+          const targetId = Number(id);
+          if (!Number.isInteger(targetId) || !name || (name !== 'default' && !promptService.has(name))) {
+            await bot.sendMessage(chatId, `Использование: /admin prompt ${target} <id> <${[...promptService.list().map((profile) => profile.name), 'default'].join('|')}>`);
+            break;
+          }
+          // "default" clears the assignment, so the user or chat follows the file's default profile
+          const profile = name === 'default' ? undefined : name;
+          if (target === 'user') {
+            const sessions = await promptService.assignToUser(targetId, profile);
+            await bot.sendMessage(chatId, sessions > 0 ? `✅ Профиль пользователя ${targetId}: ${name} (сессий: ${sessions}).` : 'Пользователь не найден.');
+          } else {
+            await promptService.assignToChat(targetId, profile);
+            await bot.sendMessage(chatId, `✅ Профиль чата ${targetId}: ${name}.`);
+          }
+          logger.info('Prompt profile assigned by admin', { adminId: userId, target, targetId, profile: name });
+          break;
+        }
+          
+        case 'deletions':
+          await sendLongMessage(bot, chatId, await privacyService.formatDeletions());
+          break;
+          
+        case 'backups': {
+          if (rest[0] === 'delete') {
+            const removed = await contextManager.removeDatabaseCopies();
+            logger.warn('Database copies removed by admin', { adminId: userId, removed });
+            await bot.sendMessage(chatId, `🗑 Удалено копий базы: ${removed}.`);
+            break;
+          }
+          const copies = await contextManager.listDatabaseCopies();
+          await bot.sendMessage(chatId, copies.length === 0
+            ? 'Копий базы нет.'
+            : [
+              '💾 Копии базы (в них могут остаться данные пользователей, удалённых через /forget):',
+              ...copies.map((copy) => `• ${path.basename(copy)}`),
+              '',
+              'Удалить все: /admin backups delete',
+            ].join('\n'));
+          break;
+        }
+          
+        case 'usage': {
+          const days = Math.min(Math.max(parseInt(rest[0]) || 7, 1), 90);
+          await sendLongMessage(bot, chatId, await usageService.formatReport(days));
+          break;
+        }
+          
+        case 'flags': {
+          const lines = Object.entries(FEATURE_FLAGS)
+            .map(([name, flag]) => `${flag.get() ? '✅' : '⛔️'} ${name} — ${flag.label}`);
+          await bot.sendMessage(chatId, ['⚙️ Флаги (до перезапуска):', ...lines, '', 'Переключить: /admin flag <имя> on|off'].join('\n'));
+          break;
+        }
+          
+        case 'flag': {
+          const flag = FEATURE_FLAGS[rest[0]];
+          if (!flag || (rest[1] !== 'on' && rest[1] !== 'off')) {
+            await bot.sendMessage(chatId, `Использование: /admin flag <${Object.keys(FEATURE_FLAGS).join('|')}> on|off`);
+            break;
+          }
+          flag.set(rest[1] === 'on');
+          logger.warn('Feature flag changed by admin', { flag: rest[0], value: rest[1], adminId: userId });
+          await bot.sendMessage(chatId, `${flag.label}: ${rest[1] === 'on' ? 'включено ✅' : 'выключено ⛔️'}`);
+          break;
+        }
+          
+        default:
+          await bot.sendMessage(chatId, [
+            '🛠 Администрирование:',
+            '/admin users [страница] — список пользователей',
+            '/admin user <id> — карточка пользователя',
+            '/admin session <ключ> [N] — последние сообщения сессии',
+            '/admin reset <ключ> — очистить историю сессии',
+            '/admin broadcast <all|active:ДНЕЙ|sobriety> <текст> — рассылка',
+            '/admin ban <id> [причина], /admin unban <id>, /admin bans',
+            '/admin reload — перечитать prompt.json',
+            '/admin prompt — профили промпта и их назначение пользователям и чатам',
+            '/admin usage [дней] — расход токенов и стоимость',
+            '/admin deletions — журнал удалений данных по /forget',
+            '/admin backups [delete] — копии базы после сбоя или миграции',
+            '/admin flags, /admin flag <имя> on|off — флаги функций',
+            '/stats — общая статистика, /feedback — оценки ответов',
+          ].join('\n'));
+      }
+      
+      logCommand(userId, 'admin', action ? [action] : undefined);
+    } catch (error) {
+      logError(error as Error, 'admin command');
+      await bot.sendMessage(chatId, 'Ошибка выполнения команды администратора.');
+    }
+  });
+
+  // Group settings command
+  onCommand(/\/group(?:@\w+)?(?:\s+(\w+)\s+(\w+))?$/, async (msg: Message, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId) return;
+    
+    if (!isGroupChat(msg.chat.type)) {
+      await bot.sendMessage(chatId, 'Эта команда работает только в группах.');
+      return;
+    }
+    
+    try {
+      const [, option, value] = match || [];
+      
+      if (option) {
+        const member = await bot.getChatMember(chatId, userId);
+        if (member.status !== 'creator' && member.status !== 'administrator') {
+          await bot.sendMessage(chatId, 'Менять настройки группы могут только администраторы.');
+          return;
+        }
+        
+        if (option === 'mode' && (value === 'shared' || value === 'individual')) {
+          await contextManager.updateGroupSettings(chatId, { mode: value as GroupMode });
+        } else if (option === 'reply' && (value === 'mention' || value === 'always')) {
+          await contextManager.updateGroupSettings(chatId, { replyMode: value as GroupReplyMode });
+        } else {
+          await bot.sendMessage(chatId, 'Использование: /group mode shared|individual или /group reply mention|always');
+          return;
+        }
+      }
+      
+      const settings = await contextManager.getGroupSettings(chatId);
+      const settingsText = `
+⚙️ Настройки группы:
+
+История: ${settings.mode === 'shared' ? 'общая для всех участников' : 'отдельная для каждого участника'}
+Ответы: ${settings.replyMode === 'mention' ? 'только при упоминании или ответе на моё сообщение' : 'на все сообщения'}
+
+Изменить: /group mode shared|individual, /group reply mention|always
+      `;
+      
+      await bot.sendMessage(chatId, settingsText);
+      logCommand(userId, 'group', option ? [option, value] : undefined);
+    } catch (error) {
+      logError(error as Error, 'group command');
+      await bot.sendMessage(chatId, 'Ошибка при изменении настроек группы.');
+    }
+  });
+
+  // Everything about the user the model should see besides the history itself
+  const buildGenerationOptions = async (
+    session: UserSession,
+    extra: Omit<GenerationOptions, 'prompt'> = {}
+  ): Promise<GenerationOptions & { prompt: ResolvedPrompt }> => ({
+    prompt: await promptService.resolve(session),
+    summary: session.summary?.text,
+    sobriety: session.sobriety && getSobrietyStatus(session.sobriety, getUserTimezone(session)),
+    mood: session.moodJournal && summarizeMood(session.moodJournal, 7),
+    persona: resolvePersona(session.settings),
+    ...extra,
+  });
+
+  // Answers the same turn again after a 👎 and puts the new reply in place of the rejected one
+  const regenerateReply = async (chatId: number, userId: number, sessionKey: string, messageId: string) => {
+    const session = await contextManager.getSession(sessionKey);
+    const pair = session && findRatedPair(session, messageId);
+    if (!session || !pair || session.history[pair.index - 1]?.role !== 'user') {
+      await bot.sendMessage(chatId, 'Этот ответ уже выпал из истории — задай вопрос заново, пожалуйста.');
+      return;
+    }
+    
+    await bot.sendChatAction(chatId, 'typing');
+    const options = await buildGenerationOptions(session, { avoidResponse: pair.message.content, userId });
+    let response: GeminiResponse;
+    try {
+      response = await geminiService.generateResponse(session.history.slice(0, pair.index), session.userMemory, options);
+    } catch (error) {
+      logError(error as Error, 'reply regeneration');
+      await bot.sendMessage(chatId, describeGenerationError(error));
+      return;
+    }
+    
+    const replyId = createReplyId();
+    await contextManager.updateSession(sessionKey, (current) => {
+      const index = current.history.findIndex((message) => message.id === messageId);
+      if (index === -1) return;
+      current.history[index] = {
+        ...current.history[index],
+        id: replyId,
+        content: response.text,
+        model: response.model || config.gemini.model,
+        promptVersion: options.prompt.version,
+        regeneratedFrom: messageId,
+      };
+    });
+    
+    const { text: shownText, remainder } = truncateResponse(response.text, config.bot.maxResponseLength);
+    const hasMore = !!remainder && config.bot.enableContinueButton;
+    await contextManager.setPendingContinuation(sessionKey, hasMore ? remainder : undefined);
+    await sendLongMessage(bot, chatId, shownText, { reply_markup: buildReplyKeyboard(hasMore, replyId) });
+  };
+
+  // Shared pipeline for typed messages, transcribed voice notes and images
+  const processUserMessage = async (
+    msg: Message,
+    rawText: string,
+    messageType: 'text' | 'voice' | 'image',
+    image?: { fileId: string } & ImageInput
+  ) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from!.id;
+    let text = rawText;
+    
+    const isGroup = isGroupChat(msg.chat.type);
+    const decision = await getReplyDecision(msg);
+    if (decision === 'ignore') return;
+    const shouldReply = decision === 'reply';
+    
+    if (isGroup && botInfo.username) {
+      text = text.replace(new RegExp(`@${botInfo.username}\\b`, 'gi'), '').trim();
+    }
+    if (!text && !image) return;
+    
+    // Log user message
+    logUserMessage(userId, text, messageType);
+    
+    // Get or create user session
+    const userSession = await contextManager.getUserSession(chatId, userId, msg.from, msg.chat.type);
+    const sessionKey = userSession.sessionKey;
+    
+    // Screen for crisis signals; safety resources go out before any generated text
+    let emotion: string | undefined;
+    if (config.safety.enabled && text) {
+      // Chatter the bot only records spent no rate-limit token, so it gets the local rules and no classifier call
+      const assessment = shouldReply ? await safetyService.assess(text, userId) : safetyService.matchRules(text);
+      emotion = assessment.emotion;
+      if (assessment.level === 'high') {
+        const prompt = await promptService.resolve(userSession);
+        await safeSendMessage(bot, chatId, safetyService.buildCrisisMessage(prompt.response_templates?.risk_protocol), {
+          ...(isGroup && { reply_to_message_id: msg.message_id }),
+        });
+      }
+      if (assessment.level !== 'none') {
+        await safetyService.reportIncident(bot, {
+          userId,
+          chatId,
+          username: msg.from?.username,
+          message: text,
+          assessment,
+        });
+      }
+    }
+    
+    // Personal sessions keep a mood journal
+    if (userSession.userId !== 0) {
+      moodService.tagMessage(sessionKey, emotion);
+    }
+    
+    // Describe the image once so later turns can still refer back to it
+    let imageReference: ImageReference | undefined;
+    if (image) {
+      imageReference = { fileId: image.fileId, mimeType: image.mimeType };
+      try {
+        imageReference.description = await geminiService.analyzeImage(
+          image.data,
+          'Опиши это изображение в 1–2 предложениях: что на нём и какое настроение. Только описание.',
+          image.mimeType,
+          userId
+        );
+      } catch (error) {
+        logError(error as Error, 'image description');
+      }
+    }
+    
+    // Add user message to history
+    await contextManager.addMessage(sessionKey, {
+      role: 'user',
+      content: text,
+      timestamp: Date.now(),
+      messageType,
+      ...(imageReference && { image: imageReference }),
+      ...(userSession.userId === 0 && {
+        authorId: userId,
+        authorName: msg.from?.first_name || msg.from?.username || String(userId),
+      }),
+    });
+    
+    if (!shouldReply) return;
+    
+    // Show typing indicator
+    await bot.sendChatAction(chatId, 'typing');
+    
+    // Get user memory for context
+    const userMemory = (await contextManager.getUserMemory(sessionKey)) ?? undefined;
+    
+    // Get conversation history
+    const history = await contextManager.getHistory(sessionKey);
+    
+    const replyToMessageId = isGroup ? msg.message_id : undefined;
+    const generationOptions = await buildGenerationOptions(userSession, { image, userId });
+    
+    // Generate AI response, streaming it into a placeholder message if enabled
+    const startTime = Date.now();
+    let responseText: string;
+    let responseModel = config.gemini.model;
+    let streamingReply: StreamingReply | null = null;
+    // Shown under a reply cut off mid-stream, but kept out of the history the model sees
+    let interruptionNote = '';
+    
+    if (config.bot.enableStreaming) {
+      streamingReply = new StreamingReply(bot, chatId, { replyToMessageId });
+      await streamingReply.start();
+      
+      try {
+        const response = await geminiService.generateResponseStream(
+          history,
+          userMemory,
+          (text) => streamingReply!.update(text.slice(0, config.bot.maxResponseLength)),
+          generationOptions
+        );
+        responseText = response.text;
+        responseModel = response.model || responseModel;
+      } catch (error) {
+        const partialText = error instanceof GeminiStreamError ? error.partialText : '';
+        logError(error as Error, 'response streaming');
+        
+        // A reply blocked halfway is not shown, even in part
+        if (!partialText || (error as GeminiError).kind === 'safety') {
+          await streamingReply.finish(describeGenerationError(error));
+          return;
+        }
+        
+        // Keep the part that already arrived instead of throwing it away
+        responseText = partialText;
+        interruptionNote = '\n\n…(ответ прервался, напиши «продолжи», если нужно)';
+      }
+    } else {
+      const response = await geminiService.generateResponse(history, userMemory, generationOptions);
+      responseText = response.text;
+      responseModel = response.model || responseModel;
+    }
+    const processingTime = Date.now() - startTime;
+    
+    // Add AI response to history
+    const replyId = createReplyId();
+    await contextManager.addMessage(sessionKey, {
+      id: replyId,
+      role: 'assistant',
+      content: responseText,
+      timestamp: Date.now(),
+      model: responseModel,
+      promptVersion: generationOptions.prompt.version,
+    });
+    
+    // Enforce maxResponseLength; the rest stays available behind a "continue" button
+    const { text: shownText, remainder } = truncateResponse(responseText, config.bot.maxResponseLength);
+    const hasMore = !!remainder && config.bot.enableContinueButton;
+    await contextManager.setPendingContinuation(sessionKey, hasMore ? remainder : undefined);
+    
+    // Send response safely
+    const replyMarkup = buildReplyKeyboard(hasMore, replyId);
+    if (streamingReply) {
+      await streamingReply.finish(shownText + interruptionNote, { reply_markup: replyMarkup });
+    } else {
+      await sendLongMessage(bot, chatId, shownText, {
+        reply_markup: replyMarkup,
+        ...(replyToMessageId && { reply_to_message_id: replyToMessageId }),
+      });
+    }
+    
+    // Read the reply aloud for users who asked for voice notes
+    if (userSession.settings?.voiceReplies && textToSpeech) {
+      try {
+        await bot.sendChatAction(chatId, 'record_voice');
+        const audio = await textToSpeech.synthesize(stripMarkdown(shownText));
+        await bot.sendVoice(chatId, audio, {}, { filename: 'reply.ogg', contentType: 'audio/ogg' });
+      } catch (error) {
+        logError(error as Error, 'voice reply');
+      }
+    }
+    
+    // Learn from the conversation in the background
+    memoryService.scheduleExtraction(sessionKey);
+    summaryService.scheduleCompaction(sessionKey);
+    
+    // Log bot response
+    logBotResponse(userId, responseText, processingTime);
+
+  };
+
+  // Handle text messages
+  bot.on('message', async (msg: Message) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    const text = msg.text;
+    
+    if (!userId || !text || text.startsWith('/')) return;
+    
+    try {
+      await runUserTask(msg, () => processUserMessage(msg, text, 'text'));
+    } catch (error) {
+      logError(error as Error, 'text message handling');
+      await bot.sendMessage(chatId, describeGenerationError(error));
+    }
+  });
+
+  // Shared handling for photos, image documents and stickers
+  const processImageMessage = async (msg: Message, fileId: string, text: string, declaredMimeType?: string) => {
+    const chatId = msg.chat.id;
+    
+    if (!config.bot.enableImageRecognition) {
+      if (text) {
+        await processUserMessage(msg, text, 'text');
+      } else if (!isGroupChat(msg.chat.type)) {
+        await bot.sendMessage(chatId, 'Распознавание изображений сейчас выключено. Опиши, пожалуйста, словами, что на картинке.');
+      }
+      return;
+    }
+    
+    // Images are only downloaded when the bot is going to answer; recorded group chatter keeps
+    // just the caption, so the shared history still shows that a picture was posted
+    const decision = await getReplyDecision(msg);
+    if (decision === 'ignore') return;
+    if (decision === 'record') {
+      await processUserMessage(msg, text || '[фото]', 'image');
+      return;
+    }
+    
+    await bot.sendChatAction(chatId, 'typing');
+    
+    const data = await downloadFile(bot, fileId);
+    const mimeType = detectImageMimeType(data, declaredMimeType);
+    if (!mimeType) {
+      await bot.sendMessage(chatId, 'Этот формат изображения я не могу открыть. Пришли, пожалуйста, JPG, PNG или WEBP.');
+      return;
+    }
+    
+    await processUserMessage(msg, text, 'image', { fileId, data, mimeType });
+  };
+
+  // Handle photo messages
+  bot.on('photo', async (msg: Message) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    // Get the largest photo
+    const photo = msg.photo?.[msg.photo.length - 1];
+    if (!userId || !photo) return;
+    
+    try {
+      await runUserTask(msg, () => processImageMessage(msg, photo.file_id, msg.caption || '', 'image/jpeg'));
+    } catch (error) {
+      logError(error as Error, 'photo handling');
+      await bot.sendMessage(chatId, describeGenerationError(error, 'Ошибка при анализе изображения.'));
+    }
+  });
 
-  // Cleanup inactive users every 24 hours
-  setInterval(async () => {
+  // Handle images sent as files
+  bot.on('document', async (msg: Message) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    const document = msg.document;
+    
+    if (!userId || !document?.mime_type?.startsWith('image/')) return;
+    
     try {
-      await contextManager.cleanupInactiveUsers(30);
+      await runUserTask(msg, () => processImageMessage(msg, document.file_id, msg.caption || '', document.mime_type!));
     } catch (error) {
-      logError(error as Error, 'cleanup task');
+      logError(error as Error, 'image document handling');
+      await bot.sendMessage(chatId, describeGenerationError(error, 'Ошибка при анализе изображения.'));
     }
-  }, 24 * 60 * 60 * 1000);
+  });
+
+  // Handle stickers
+  bot.on('sticker', async (msg: Message) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    const sticker = msg.sticker;
+    
+    if (!userId || !sticker) return;
+    
+    // Animated and video stickers are not images, but their thumbnails are
+    const fileId = sticker.is_animated || sticker.is_video ? sticker.thumbnail?.file_id : sticker.file_id;
+    if (!fileId) return;
+    
+    try {
+      await runUserTask(msg, () => processImageMessage(msg, fileId, sticker.emoji ? `Стикер ${sticker.emoji}` : 'Стикер', 'image/webp'));
+    } catch (error) {
+      logError(error as Error, 'sticker handling');
+      await bot.sendMessage(chatId, describeGenerationError(error, 'Ошибка при обработке стикера.'));
+    }
+  });
+
+  // Handle voice messages
+  bot.on('voice', async (msg: Message) => {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id;
+    
+    if (!userId || !msg.voice) return;
+    
+    try {
+      if (await adminService.isBanned(userId)) return;
+      // Don't spend a transcription on group chatter nobody is going to see
+      const decision = await getReplyDecision(msg);
+      if (decision === 'ignore') return;
+      
+      if (!speechToText) {
+        if (decision === 'reply') {
+          await bot.sendMessage(chatId, '🎤 Голосовое получил, но распознавание речи на этом сервере не настроено. Напиши, пожалуйста, текстом.');
+        }
+        return;
+      }
+      
+      if (msg.voice.duration > config.voice.maxDurationSec) {
+        await bot.sendMessage(chatId, `🎤 Голосовое слишком длинное. Пожалуйста, уложись в ${Math.floor(config.voice.maxDurationSec / 60)} мин.`);
+        return;
+      }
+      
+      const voice = msg.voice;
+      await runUserTask(msg, async () => {
+        await bot.sendChatAction(chatId, 'typing');
+        
+        // Download voice file
+        const voiceBuffer = await downloadFile(bot, voice.file_id);
+        
+        // Transcribe and handle the result like a typed message
+        const transcript = await speechToText!.transcribe(voiceBuffer, voice.mime_type || 'audio/ogg', userId);
+        if (!transcript) {
+          await bot.sendMessage(chatId, '🎤 Не получилось разобрать слова. Попробуй записать ещё раз или напиши текстом.');
+          return;
+        }
+        
+        await processUserMessage(msg, transcript, 'voice');
+      });
+      
+    } catch (error) {
+      logError(error as Error, 'voice handling');
+      await bot.sendMessage(chatId, describeGenerationError(error, 'Ошибка при обработке голосового сообщения.'));
+    }
+  });
+
+  // Handle callback queries (inline buttons)
+  bot.on('callback_query', async (callbackQuery: CallbackQuery) => {
+    const chatId = callbackQuery.message?.chat.id;
+    const userId = callbackQuery.from.id;
+    const data = callbackQuery.data;
+    
+    if (!chatId || !data) return;
+    
+    try {
+      // Comes before the ban check: a banned user may still erase their data
+      if (data.startsWith('forget:')) {
+        const [, answer, issuedAt] = data.split(':');
+        await bot.answerCallbackQuery(callbackQuery.id);
+        const messageId = callbackQuery.message?.message_id;
+        if (!messageId) return;
+        
+        if (answer !== 'yes') {
+          await safeEditMessage(bot, chatId, messageId, 'Хорошо, ничего не удаляю 🌿');
+          return;
+        }
+        if (Date.now() - Number(issuedAt) > FORGET_CONFIRM_TTL_MS) {
+          await safeEditMessage(bot, chatId, messageId, 'Кнопка устарела. Если всё ещё хочешь удалить данные, отправь /forget ещё раз.');
+          return;
+        }
+        
+        await privacyService.forget(userId);
+        await safeEditMessage(bot, chatId, messageId, '🗑 Готово: всё, что я хранил о тебе, удалено. Если захочешь поговорить снова — просто напиши.');
+        return;
+      }
+      
+      if (await adminService.isBanned(userId)) {
+        await bot.answerCallbackQuery(callbackQuery.id);
+        return;
+      }
+      
+      if (data.startsWith('persona:')) {
+        const persona = findPersona(data.slice('persona:'.length));
+        const sessionKey = await contextManager.resolveSessionKey(chatId, userId, callbackQuery.message?.chat.type);
+        await contextManager.updateSettings(sessionKey, { persona: persona?.id, customPersona: undefined });
+        await bot.answerCallbackQuery(callbackQuery.id, { text: persona ? persona.title : 'Обычный стиль' });
+        if (callbackQuery.message) {
+          await bot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+            chat_id: chatId,
+            message_id: callbackQuery.message.message_id,
+          });
+        }
+        await safeSendMessage(bot, chatId, persona ? persona.greeting : 'Хорошо, говорю в своём обычном стиле 🌿');
+        return;
+      }
+      
+      if (data.startsWith('memdel:')) {
+        const sessionKey = await contextManager.resolveSessionKey(chatId, userId, callbackQuery.message?.chat.type);
+        const deleted = await memoryService.deleteItem(sessionKey, data.slice('memdel:'.length));
+        await bot.answerCallbackQuery(callbackQuery.id, { text: deleted ? 'Удалено 🗑' : 'Уже удалено' });
+        if (deleted && callbackQuery.message) {
+          await sendMemoryOverview(chatId, sessionKey, callbackQuery.message.message_id);
+        }
+        return;
+      }
+      
+      if (data.startsWith('like:') || data.startsWith('dislike:')) {
+        const [rating, replyId] = data.split(':') as ['like' | 'dislike', string];
+        const sessionKey = await contextManager.resolveSessionKey(chatId, userId, callbackQuery.message?.chat.type);
+        const record = await feedbackService.rate(sessionKey, userId, replyId, rating);
+        
+        if (!record) {
+          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Этот ответ уже не получится оценить' });
+          return;
+        }
+        if (rating === 'like') {
+          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Рад, что помог! 🙏' });
+          return;
+        }
+        
+        await bot.answerCallbackQuery(callbackQuery.id, { text: 'Понял, попробуем по-другому 💭' });
+        const reasons = Object.entries(FEEDBACK_REASONS).map(([code, label]) => ({ text: label, callback_data: `fbr:${replyId}:${code}` }));
+        await bot.sendMessage(chatId, 'Что было не так? Можно выбрать причину или попросить другой вариант.', {
+          reply_markup: {
+            inline_keyboard: [
+              reasons.slice(0, 2),
+              reasons.slice(2),
+              [{ text: '🔄 Другой вариант', callback_data: `regen:${replyId}` }]
+            ]
+          }
+        });
+        return;
+      }
+      
+      if (data.startsWith('fbr:')) {
+        const [, replyId, code] = data.split(':');
+        if (!await feedbackService.setReason(replyId, userId, FEEDBACK_REASONS[code] || code)) {
+          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Причину указывает тот, кто оценил ответ' });
+          return;
+        }
+        await bot.answerCallbackQuery(callbackQuery.id, { text: 'Спасибо, учту 🙏' });
+        // The reason is given once; the regenerate button stays
+        if (callbackQuery.message) {
+          await bot.editMessageReplyMarkup({
+            inline_keyboard: [[{ text: '🔄 Другой вариант', callback_data: `regen:${replyId}` }]]
+          }, { chat_id: chatId, message_id: callbackQuery.message.message_id });
+        }
+        return;
+      }
+      
+      if (data.startsWith('regen:')) {
+        const replyId = data.slice('regen:'.length);
+        const rated = await contextManager.getFeedback(replyId);
+        if (rated && rated.userId !== userId) {
+          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Другой вариант может попросить тот, кто оценил ответ' });
+          return;
+        }
+        await bot.answerCallbackQuery(callbackQuery.id);
+        if (!await tryAcquireReply(chatId, userId)) return;
+        if (callbackQuery.message) {
+          await bot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+            chat_id: chatId,
+            message_id: callbackQuery.message.message_id,
+          });
+        }
+        const sessionKey = await contextManager.resolveSessionKey(chatId, userId, callbackQuery.message?.chat.type);
+        // In the user's queue, so the rewrite can't interleave with a message they send meanwhile
+        await userQueue.run(userId, () => regenerateReply(chatId, userId, sessionKey, replyId));
+        return;
+      }
+      
+      if (data.startsWith('remdel:')) {
+        const sessionKey = await contextManager.resolveSessionKey(chatId, userId, callbackQuery.message?.chat.type);
+        const removed = await schedulerService.removeReminder(sessionKey, data.slice('remdel:'.length));
+        await bot.answerCallbackQuery(callbackQuery.id, { text: removed ? 'Удалено 🗑' : 'Уже удалено' });
+        if (removed && callbackQuery.message) {
+          await sendReminderList(chatId, sessionKey, callbackQuery.message.message_id);
+        }
+        return;
+      }
+      
+      if (data.startsWith('mood:') || data.startsWith('journal:')) {
+        const sessionKey = await getPersonalSessionKey(chatId, callbackQuery.from, callbackQuery.message?.chat.type);
+        if (!sessionKey) {
+          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Дневник доступен в личном чате' });
+          return;
+        }
+        
+        if (data.startsWith('mood:')) {
+          const rating = parseInt(data.slice('mood:'.length));
+          await moodService.addRating(sessionKey, rating);
+          await bot.answerCallbackQuery(callbackQuery.id, { text: `Записал: ${rating}/10` });
+          // One rating per prompt
+          if (callbackQuery.message) {
+            await bot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+              chat_id: chatId,
+              message_id: callbackQuery.message.message_id,
+            });
+          }
+          await bot.sendMessage(chatId, `📔 ${rating}/10 — записал. Хочешь, добавь пару слов: /journal add <текст>`);
+        } else if (data === 'journal:rate') {
+          await bot.answerCallbackQuery(callbackQuery.id);
+          await bot.sendMessage(chatId, '🙂 Как настроение прямо сейчас, от 1 до 10?', { reply_markup: buildMoodKeyboard() });
+        } else {
+          await bot.answerCallbackQuery(callbackQuery.id);
+          const period = data === 'journal:month' ? 'month' : 'week';
+          const session = await contextManager.getSession(sessionKey);
+          if (session && callbackQuery.message) {
+            await safeEditMessage(bot, chatId, callbackQuery.message.message_id, formatJournalReport(session, period), {
+              reply_markup: buildJournalKeyboard(period)
+            });
+          }
+        }
+        return;
+      }
+      
+      if (data === 'sobriety:start' || data.startsWith('checkin:')) {
+        const sessionKey = await getPersonalSessionKey(chatId, callbackQuery.from, callbackQuery.message?.chat.type);
+        if (!sessionKey) {
+          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Трекер доступен в личном чате' });
+          return;
+        }
+        
+        await bot.answerCallbackQuery(callbackQuery.id);
+        if (data === 'sobriety:start') {
+          await sobrietyService.start(sessionKey);
+          await bot.sendMessage(chatId, '🌿 Отсчёт начат с сегодняшнего дня. Отмечайся каждый день: /checkin');
+        } else if (data === 'checkin:sober') {
+          await sendCheckInResult(chatId, sessionKey);
+        } else {
+          const endedStreak = await sobrietyService.logRelapse(sessionKey);
+          if (endedStreak === null) {
+            await sendSobrietyProgress(chatId, sessionKey);
+          } else {
+            await sendRelapseResponse(chatId, sessionKey, endedStreak);
+          }
+        }
+        return;
+      }
+      
+      switch (data) {
+        case 'support':
+          await bot.answerCallbackQuery(callbackQuery.id);
+          await bot.sendMessage(chatId, '💬 Я здесь, чтобы поддержать тебя. Расскажи, как дела? Что беспокоит?');
+          break;
+          
+        case 'reset':
+          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Начинаем заново 🌿' });
+          await contextManager.clearHistory(
+            await contextManager.resolveSessionKey(chatId, userId, callbackQuery.message?.chat.type)
+          );
+          break;
+          
+        case 'sobriety': {
+          await bot.answerCallbackQuery(callbackQuery.id);
+          const sessionKey = await getPersonalSessionKey(chatId, callbackQuery.from, callbackQuery.message?.chat.type);
+          const session = sessionKey ? await contextManager.getSession(sessionKey) : null;
+          
+          if (sessionKey && session?.sobriety) {
+            const streak = formatDays(getSobrietyStatus(session.sobriety, getUserTimezone(session)).streakDays);
+            await bot.sendMessage(chatId, `🌿 Трезвость: ${streak}. Каждый трезвый день — это победа. Как проходит твоя трезвость? Есть ли тяга?`, {
+              reply_markup: checkInKeyboard
+            });
+          } else if (sessionKey) {
+            await sendSobrietyProgress(chatId, sessionKey);
+          } else {
+            await bot.sendMessage(chatId, '🌿 Каждый трезвый день — это победа. Как проходит твоя трезвость? Есть ли тяга?');
+          }
+          break;
+        }
+          
+        case 'stats': {
+          await bot.answerCallbackQuery(callbackQuery.id);
+          const sessionKey = await getPersonalSessionKey(chatId, callbackQuery.from, callbackQuery.message?.chat.type);
+          if (!sessionKey) {
+            await bot.sendMessage(chatId, 'Личный прогресс доступен в личном чате.');
+            break;
+          }
+          await sendSobrietyProgress(chatId, sessionKey);
+          break;
+        }
+          
+        case 'continue': {
+          const sessionKey = await contextManager.resolveSessionKey(chatId, userId, callbackQuery.message?.chat.type);
+          const pending = await contextManager.setPendingContinuation(sessionKey, undefined);
+          
+          if (!pending) {
+            await bot.answerCallbackQuery(callbackQuery.id, { text: 'Продолжения нет' });
+            break;
+          }
+          
+          await bot.answerCallbackQuery(callbackQuery.id);
+          
+          // Drop the button from the previous part so it can't be pressed twice
+          if (callbackQuery.message) {
+            await bot.editMessageReplyMarkup(buildReplyKeyboard(false, getReplyId(callbackQuery.message)), {
+              chat_id: chatId,
+              message_id: callbackQuery.message.message_id,
+            });
+          }
+          
+          const { text: nextText, remainder } = truncateResponse(pending, config.bot.maxResponseLength);
+          await contextManager.setPendingContinuation(sessionKey, remainder || undefined);
+          await sendLongMessage(bot, chatId, nextText, {
+            reply_markup: buildReplyKeyboard(!!remainder, getReplyId(callbackQuery.message))
+          });
+          break;
+        }
+          
+        case 'like':
+          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Рад, что помог! 🙏' });
+          break;
+          
+        case 'dislike':
+          await bot.answerCallbackQuery(callbackQuery.id, { text: 'Понял, попробуем по-другому 💭' });
+          break;
+      }
+    } catch (error) {
+      logError(error as Error, 'callback query handling');
+    }
+  });
+
+  // Error handling
+  bot.on('error', (error: Error) => {
+    logError(error, 'bot error');
+  });
+
+  bot.on('polling_error', (error: Error) => {
+    logError(error, 'polling error');
+  });
+
+  // Graceful shutdown
+  const shutdown = async () => {
+    logger.info('Shutting down bot...');
+    schedulerService.stop();
+    promptService.stop();
+    if (webhookMode) {
+      try {
+        await bot.deleteWebHook();
+      } catch (error) {
+        logError(error as Error, 'webhook removal');
+      }
+    } else {
+      await bot.stopPolling();
+    }
+    await botServer.stop();
+    await contextManager.close();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  // The HTTP server carries the webhook; in polling mode it only serves health checks
+  if (webhookMode || config.server.port > 0) {
+    await botServer.start(webhookMode ? bot : null);
+  }
+  if (webhookMode) {
+    await bot.setWebHook(`${config.server.webhookUrl}${getWebhookPath()}`, {
+      secret_token: getWebhookSecret(),
+    });
+    logger.info('🔗 Webhook registered, receiving updates over HTTP');
+  }
+
+  // Start the bot
+  logger.info('🤖 Telegram bot started successfully!');
+  logger.info(`📊 Configuration: ${config.gemini.model}, history budget: ${config.gemini.maxTokens} tokens`);
+
+  // Reminders, plus the daily cleanup of inactive users
+  await schedulerService.start(bot);
+  schedulerService.scheduleTask(config.scheduler.cleanupCron, 'cleanup', () => contextManager.cleanupInactiveUsers(30));
 }
 
 // Start the bot
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import { config } from './config';
+import { geminiService, MemoryUpdate } from './gemini';
+import { contextManager, MemoryItem, MemoryItemKind } from './utils/context';
+import { logger } from './utils/logger';
+
+const MEMORY_KINDS: MemoryItemKind[] = ['fact', 'interest', 'goal', 'preference'];
+
+// Comparison key that ignores case, punctuation and spacing
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+const createItem = (kind: MemoryItemKind, text: string, source: MemoryItem['source'], now: number): MemoryItem => ({
+  id: crypto.randomBytes(4).toString('hex'),
+  kind,
+  text: text.trim(),
+  status: 'active',
+  source,
+  createdAt: now,
+  updatedAt: now,
+});
+
+/**
+ * Merges model-proposed updates into the stored items. Duplicates only
+ * refresh the timestamp, and items the user wrote themselves are never
+ * dropped as outdated.
+ */
+export function mergeMemoryUpdates(items: MemoryItem[], update: MemoryUpdate, now: number = Date.now()): MemoryItem[] {
+  const merged = items.map((item) => ({ ...item }));
+  const byKey = new Map(merged.map((item) => [normalize(item.text), item]));
+
+  for (const candidate of update.add) {
+    if (!candidate?.text || !MEMORY_KINDS.includes(candidate.kind)) continue;
+
+    const existing = byKey.get(normalize(candidate.text));
+    if (existing) {
+      existing.updatedAt = now;
+      continue;
+    }
+
+    const item = createItem(candidate.kind, candidate.text, 'auto', now);
+    merged.push(item);
+    byKey.set(normalize(item.text), item);
+  }
+
+  for (const id of update.achieved) {
+    const goal = merged.find((item) => item.id === id && item.kind === 'goal');
+    if (goal && goal.status !== 'achieved') {
+      goal.status = 'achieved';
+      goal.updatedAt = now;
+    }
+  }
+
+  const outdated = new Set(update.outdated);
+  const kept = merged.filter((item) => !(outdated.has(item.id) && item.source === 'auto'));
+
+  // Over the cap, forget the auto-extracted items that were confirmed longest ago
+  const overflow = kept.length - config.memory.maxItems;
+  if (overflow > 0) {
+    const evicted = new Set(
+      kept
+        .filter((item) => item.source === 'auto')
+        .sort((a, b) => a.updatedAt - b.updatedAt)
+        .slice(0, overflow)
+        .map((item) => item.id)
+    );
+    return kept.filter((item) => !evicted.has(item.id));
+  }
+
+  return kept;
+}
+
+class MemoryService {
+  private inFlight = new Set<string>();
+
+  // Fire-and-forget after a reply; extraction only runs once enough new messages piled up
+  scheduleExtraction(sessionKey: string): void {
+    if (!config.bot.enableUserMemory || this.inFlight.has(sessionKey)) return;
+
+    this.extract(sessionKey).catch((error) => {
+      logger.error('Background memory extraction failed', { sessionKey, error: (error as Error).message });
+    });
+  }
+
+  // Returns the number of new items learned
+  async extract(sessionKey: string, force: boolean = false): Promise<number> {
+    const session = await contextManager.getSession(sessionKey);
+    // Shared group sessions mix several people, there is no single user to remember
+    if (!session || session.userId === 0) return 0;
+
+    const since = session.memoryExtractedAt || 0;
+    const fresh = session.history.filter((message) => message.role !== 'system' && message.timestamp > since);
+    const userMessages = fresh.filter((message) => message.role === 'user').length;
+    if (userMessages === 0 || (!force && userMessages < config.memory.extractEveryMessages)) {
+      return 0;
+    }
+
+    this.inFlight.add(sessionKey);
+    try {
+      const update = await geminiService.extractMemoryUpdates(fresh, session.userMemory.items || [], session.userId);
+      const extractedUntil = fresh[fresh.length - 1].timestamp;
+
+      let learned = 0;
+      await contextManager.updateSession(sessionKey, (current) => {
+        const before = current.userMemory.items?.length || 0;
+        current.userMemory.items = mergeMemoryUpdates(current.userMemory.items || [], update);
+        current.memoryExtractedAt = extractedUntil;
+        learned = Math.max(0, current.userMemory.items.length - before);
+      });
+
+      logger.info('User memory extracted', {
+        sessionKey,
+        proposed: update.add.length,
+        learned,
+        achieved: update.achieved.length,
+        outdated: update.outdated.length,
+      });
+      return learned;
+    } finally {
+      this.inFlight.delete(sessionKey);
+    }
+  }
+
+  async addItem(sessionKey: string, text: string, kind: MemoryItemKind = 'fact'): Promise<MemoryItem | null> {
+    const item = createItem(kind, text, 'user', Date.now());
+    const session = await contextManager.updateSession(sessionKey, (current) => {
+      current.userMemory.items = [...(current.userMemory.items || []), item];
+    });
+    return session ? item : null;
+  }
+
+  // A correction makes the item the user's own, so extraction will not drop it
+  async editItem(sessionKey: string, id: string, text: string): Promise<boolean> {
+    let found = false;
+    await contextManager.updateSession(sessionKey, (current) => {
+      const item = current.userMemory.items?.find((candidate) => candidate.id === id);
+      if (!item) return;
+      item.text = text.trim();
+      item.source = 'user';
+      item.updatedAt = Date.now();
+      found = true;
+    });
+    return found;
+  }
+
+  async deleteItem(sessionKey: string, id: string): Promise<boolean> {
+    let found = false;
+    await contextManager.updateSession(sessionKey, (current) => {
+      const items = current.userMemory.items || [];
+      current.userMemory.items = items.filter((item) => item.id !== id);
+      found = current.userMemory.items.length !== items.length;
+    });
+    return found;
+  }
+}
+
+export const memoryService = new MemoryService();
@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from './config';
+import { geminiService } from './gemini';
+import { contextManager, MoodEntry, UserSession } from './utils/context';
+import { logger } from './utils/logger';
+import { getLocalTime, getUserTimezone } from './utils/time';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPARK_BARS = '▁▂▃▄▅▆▇█';
+const WEEKDAYS = ['Вс', 'Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб'];
+
+// Tags that say nothing about how the person feels
+const NEUTRAL_EMOTIONS = new Set(['', 'neutral', 'нейтральное', 'нейтральная', 'нейтральный']);
+
+const normalizeEmotion = (emotion: string | undefined): string | undefined => {
+  const normalized = (emotion || '').trim().toLowerCase();
+  return NEUTRAL_EMOTIONS.has(normalized) ? undefined : normalized;
+};
+
+export interface MoodSummary {
+  days: number;
+  ratingCount: number;
+  averageRating?: number;
+  // Second half of the period against the first, when both have ratings
+  trend?: 'up' | 'down' | 'flat';
+  topEmotions: string[];
+}
+
+export function buildMoodKeyboard(): TelegramBot.InlineKeyboardMarkup {
+  const button = (rating: number) => ({ text: String(rating), callback_data: `mood:${rating}` });
+  return {
+    inline_keyboard: [
+      [1, 2, 3, 4, 5].map(button),
+      [6, 7, 8, 9, 10].map(button),
+    ],
+  };
+}
+
+const average = (values: number[]): number | undefined =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+
+// Local dates of the last `days` days, oldest first
+function lastDates(timezone: string, days: number, now: number): string[] {
+  return Array.from({ length: days }, (_, i) => getLocalTime(timezone, now - (days - 1 - i) * DAY_MS).date);
+}
+
+function ratingsByDate(entries: MoodEntry[], timezone: string): Map<string, number[]> {
+  const byDate = new Map<string, number[]>();
+  for (const entry of entries) {
+    if (entry.rating === undefined) continue;
+    const date = getLocalTime(timezone, entry.date).date;
+    byDate.set(date, [...(byDate.get(date) || []), entry.rating]);
+  }
+  return byDate;
+}
+
+const formatDate = (date: string): string => date.split('-').slice(1).reverse().join('.');
+
+const weekday = (date: string): string => WEEKDAYS[new Date(`${date}T12:00:00Z`).getUTCDay()];
+
+export function summarizeMood(entries: MoodEntry[], days: number, now: number = Date.now()): MoodSummary {
+  const since = now - days * DAY_MS;
+  const recent = entries.filter((entry) => entry.date >= since);
+  const rated = recent.filter((entry) => entry.rating !== undefined);
+
+  const middle = now - (days * DAY_MS) / 2;
+  const firstHalf = average(rated.filter((entry) => entry.date < middle).map((entry) => entry.rating!));
+  const secondHalf = average(rated.filter((entry) => entry.date >= middle).map((entry) => entry.rating!));
+  let trend: MoodSummary['trend'];
+  if (firstHalf !== undefined && secondHalf !== undefined) {
+    const change = secondHalf - firstHalf;
+    trend = change >= 1 ? 'up' : change <= -1 ? 'down' : 'flat';
+  }
+
+  const emotionCounts = new Map<string, number>();
+  for (const entry of recent) {
+    if (entry.emotion) {
+      emotionCounts.set(entry.emotion, (emotionCounts.get(entry.emotion) || 0) + 1);
+    }
+  }
+
+  return {
+    days,
+    ratingCount: rated.length,
+    averageRating: average(rated.map((entry) => entry.rating!)),
+    trend,
+    topEmotions: [...emotionCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([emotion]) => emotion),
+  };
+}
+
+const TREND_LABELS = { up: '↗ лучше', down: '↘ хуже', flat: '→ ровно' };
+
+function formatSummaryLine(summary: MoodSummary): string {
+  if (summary.averageRating === undefined) {
+    return 'Оценок пока нет.';
+  }
+  const trend = summary.trend ? `, ${TREND_LABELS[summary.trend]}` : '';
+  return `Среднее: ${summary.averageRating.toFixed(1)}/10 по ${summary.ratingCount} оценкам${trend}`;
+}
+
+// One bar per day, so the week reads at a glance
+export function renderWeeklyChart(entries: MoodEntry[], timezone: string, now: number = Date.now()): string {
+  const byDate = ratingsByDate(entries, timezone);
+  const rows = lastDates(timezone, 7, now).map((date) => {
+    const dayAverage = average(byDate.get(date) || []);
+    const label = `${weekday(date)} ${formatDate(date)}`;
+    if (dayAverage === undefined) {
+      return `${label} ${'·'.repeat(10)}  —`;
+    }
+    const filled = Math.round(dayAverage);
+    return `${label} ${'█'.repeat(filled)}${'░'.repeat(10 - filled)} ${dayAverage.toFixed(1)}`;
+  });
+  return rows.join('\n');
+}
+
+// A sparkline of the month plus weekly averages
+export function renderMonthlyChart(entries: MoodEntry[], timezone: string, now: number = Date.now()): string {
+  const byDate = ratingsByDate(entries, timezone);
+  const dates = lastDates(timezone, 28, now);
+
+  const sparkline = dates.map((date) => {
+    const dayAverage = average(byDate.get(date) || []);
+    return dayAverage === undefined ? '·' : SPARK_BARS[Math.min(7, Math.floor(((dayAverage - 1) / 9) * 8))];
+  }).join('');
+
+  const weeks: string[] = [];
+  for (let i = 0; i < dates.length; i += 7) {
+    const week = dates.slice(i, i + 7);
+    const weekAverage = average(week.flatMap((date) => byDate.get(date) || []));
+    weeks.push(`${formatDate(week[0])}–${formatDate(week[week.length - 1])}: ${weekAverage === undefined ? '—' : weekAverage.toFixed(1)}`);
+  }
+
+  return [sparkline, '', ...weeks].join('\n');
+}
+
+export function formatJournalReport(session: UserSession, period: 'week' | 'month', now: number = Date.now()): string {
+  const entries = session.moodJournal || [];
+  const timezone = getUserTimezone(session);
+  const summary = summarizeMood(entries, period === 'week' ? 7 : 28, now);
+  const chart = period === 'week' ? renderWeeklyChart(entries, timezone, now) : renderMonthlyChart(entries, timezone, now);
+
+  const notes = entries
+    .filter((entry) => entry.text && entry.date >= now - summary.days * DAY_MS)
+    .slice(-3)
+    .map((entry) => `• ${formatDate(getLocalTime(timezone, entry.date).date)}: ${entry.text}`);
+
+  const lines = [
+    `📔 **Дневник настроения — ${period === 'week' ? 'неделя' : '4 недели'}**`,
+    '',
+    '```',
+    chart,
+    '```',
+    formatSummaryLine(summary),
+  ];
+  if (summary.topEmotions.length > 0) {
+    lines.push(`Чаще всего: ${summary.topEmotions.join(', ')}`);
+  }
+  if (notes.length > 0) {
+    lines.push('', 'Последние записи:', ...notes);
+  }
+  return lines.join('\n');
+}
+
+// Drops the oldest auto-tags first once the journal is full: deliberate ratings and entries
+// carry the trends, and a chatty day must not push them out
+export function capJournal(entries: MoodEntry[], maxEntries: number): MoodEntry[] {
+  const excess = entries.length - maxEntries;
+  if (excess <= 0) return entries;
+
+  const dropped = new Set(entries.filter((entry) => entry.source === 'auto').slice(0, excess));
+  return entries.filter((entry) => !dropped.has(entry)).slice(-maxEntries);
+}
+
+const csvField = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function exportJournalCsv(session: UserSession): string {
+  const timezone = getUserTimezone(session);
+  const rows = (session.moodJournal || []).map((entry) => {
+    const local = getLocalTime(timezone, entry.date);
+    return [`${local.date} ${local.time}`, entry.rating, entry.emotion, entry.source, entry.text].map(csvField).join(',');
+  });
+  return ['date,rating,emotion,source,text', ...rows].join('\n');
+}
+
+class MoodService {
+  async addRating(sessionKey: string, rating: number, text?: string): Promise<MoodEntry | null> {
+    return this.append(sessionKey, { rating, text, source: 'rating' });
+  }
+
+  async addEntry(sessionKey: string, userId: number, text: string): Promise<MoodEntry | null> {
+    const emotion = config.mood.autoTag ? await this.detectEmotion(text, userId) : undefined;
+    return this.append(sessionKey, { text, emotion, source: 'entry' });
+  }
+
+  // Records the emotion the safety classifier already found in a chat message. Messages it
+  // didn't classify stay untagged: a Gemini call of their own would double the cost of every message
+  tagMessage(sessionKey: string, emotion?: string): void {
+    const detected = normalizeEmotion(emotion);
+    if (!config.mood.autoTag || !detected) return;
+
+    this.append(sessionKey, { emotion: detected, source: 'auto' }).catch((error) => {
+      logger.error('Emotion tagging failed', { sessionKey, error: (error as Error).message });
+    });
+  }
+
+  private async detectEmotion(text: string, userId: number): Promise<string | undefined> {
+    const { emotion } = await geminiService.analyzeUserIntent(text, userId);
+    return normalizeEmotion(emotion);
+  }
+
+  private async append(sessionKey: string, fields: Omit<MoodEntry, 'id' | 'date'>): Promise<MoodEntry | null> {
+    const entry: MoodEntry = {
+      id: crypto.randomBytes(4).toString('hex'),
+      date: Date.now(),
+      ...fields,
+    };
+    const session = await contextManager.updateSession(sessionKey, (current) => {
+      current.moodJournal = capJournal([...(current.moodJournal || []), entry], config.mood.maxEntries);
+    });
+    return session ? entry : null;
+  }
+}
+
+export const moodService = new MoodService();
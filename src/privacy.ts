@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+import {
+  contextManager,
+  BanRecord,
+  ChatMessage,
+  DeletionRecord,
+  FeedbackRecord,
+  UsageRecord,
+  UserSession,
+} from './utils/context';
+import { logger, eraseUserLogEntries } from './utils/logger';
+import { getUserTimezone } from './utils/time';
+import { formatDays, getSobrietyStatus } from './sobriety';
+import { REMINDER_LABELS } from './scheduler';
+
+// How long the /forget confirmation button stays valid
+export const FORGET_CONFIRM_TTL_MS = 10 * 60 * 1000;
+
+export interface GroupMessages {
+  sessionKey: string;
+  chatId: number;
+  messages: ChatMessage[];
+}
+
+// Everything stored about one person
+export interface UserDataExport {
+  userId: number;
+  exportedAt: number;
+  sessions: UserSession[];
+  // Their turns in shared group sessions, with the replies to them
+  groupMessages: GroupMessages[];
+  feedback: FeedbackRecord[];
+  usage: UsageRecord[];
+  ban: BanRecord | null;
+}
+
+// The user's turns in a shared session, plus each assistant reply that answered only them
+export function splitAuthoredMessages(history: ChatMessage[], userId: number): { kept: ChatMessage[]; authored: ChatMessage[] } {
+  const kept: ChatMessage[] = [];
+  const authored: ChatMessage[] = [];
+  let turnAuthors = new Set<number | undefined>();
+
+  for (const message of history) {
+    if (message.role === 'user') {
+      turnAuthors.add(message.authorId);
+    }
+    const isTheirs = message.role === 'user'
+      ? message.authorId === userId
+      : message.role === 'assistant' && turnAuthors.size === 1 && turnAuthors.has(userId);
+    (isTheirs ? authored : kept).push(message);
+
+    if (message.role === 'assistant') {
+      turnAuthors = new Set();
+    }
+  }
+
+  return { kept, authored };
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDateTime = (date: number): string => new Date(date).toLocaleString('ru-RU');
+
+const section = (title: string, body: string[]): string[] =>
+  body.length > 0 ? [`<h2>${escapeHtml(title)}</h2>`, ...body] : [];
+
+const list = (items: string[]): string[] =>
+  items.length > 0 ? ['<ul>', ...items.map((item) => `<li>${item}</li>`), '</ul>'] : [];
+
+function renderMessages(messages: ChatMessage[]): string[] {
+  return messages
+    .filter((message) => message.role !== 'system')
+    .map((message) => {
+      const author = message.role === 'user' ? (message.authorName || 'Вы') : 'Бот';
+      return `<p><small>${formatDateTime(message.timestamp)}</small> <b>${escapeHtml(author)}:</b> ${escapeHtml(message.content)}</p>`;
+    });
+}
+
+function renderSession(session: UserSession): string[] {
+  const lines = [`<h2>Чат ${session.chatId}</h2>`, `<p>Начат ${formatDateTime(session.createdAt)}, последняя активность ${formatDateTime(session.lastActivity)}</p>`];
+
+  const memory = (session.userMemory.items || []).map((item) => `${escapeHtml(item.text)} <small>(${item.kind}, ${item.status})</small>`);
+  lines.push(...section('Что бот о вас помнит', list(memory)));
+
+  if (session.sobriety) {
+    const status = getSobrietyStatus(session.sobriety, getUserTimezone(session));
+    lines.push(...section('Трекер трезвости', list([
+      `Текущая серия: ${formatDays(status.streakDays)}, с ${formatDateTime(session.sobriety.startDate)}`,
+      `Лучшая серия: ${formatDays(status.bestStreakDays)}`,
+      ...session.sobriety.relapses.map((relapse) =>
+        `Срыв ${formatDateTime(relapse.date)} после ${formatDays(relapse.streakDays)}${relapse.note ? `: ${escapeHtml(relapse.note)}` : ''}`),
+    ])));
+  }
+
+  const mood = (session.moodJournal || []).map((entry) =>
+    [formatDateTime(entry.date), entry.rating && `${entry.rating}/10`, entry.emotion, entry.text]
+      .filter(Boolean)
+      .map((part) => escapeHtml(String(part)))
+      .join(' — '));
+  lines.push(...section('Дневник настроения', list(mood)));
+
+  const reminders = (session.schedule?.reminders || []).map((reminder) =>
+    escapeHtml(`${reminder.time} ${reminder.repeat === 'daily' ? 'ежедневно' : reminder.date} — ${reminder.text || REMINDER_LABELS[reminder.kind]}`));
+  lines.push(...section('Напоминания', list(reminders)));
+
+  if (session.summary) {
+    lines.push(...section('Краткое содержание ранней переписки', [`<p>${escapeHtml(session.summary.text)}</p>`]));
+  }
+  lines.push(...section('Переписка', renderMessages(session.history)));
+  return lines;
+}
+
+// A page a person can open and read without any tooling
+export function renderExportHtml(data: UserDataExport): string {
+  const body = [
+    `<h1>Данные пользователя ${data.userId}</h1>`,
+    `<p>Выгружено ${formatDateTime(data.exportedAt)}. Полная машиночитаемая версия — в JSON-файле.</p>`,
+    ...data.sessions.flatMap(renderSession),
+    ...data.groupMessages.flatMap((group) => section(`Сообщения в группе ${group.chatId}`, renderMessages(group.messages))),
+    ...section('Оценки ответов', list(data.feedback.map((record) =>
+      `${formatDateTime(record.ratedAt)} ${record.rating === 'like' ? '👍' : '👎'}${record.reason ? ` (${escapeHtml(record.reason)})` : ''}: ${escapeHtml(record.response)}`))),
+    ...section('Использование AI', list(data.usage.map((record) =>
+      `${record.date}: ${Object.values(record.models).reduce((sum, usage) => sum + usage.promptTokens + usage.responseTokens, 0)} токенов`))),
+    ...(data.ban ? section('Блокировка', [`<p>С ${formatDateTime(data.ban.bannedAt)}${data.ban.reason ? `: ${escapeHtml(data.ban.reason)}` : ''}</p>`]) : []),
+  ];
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="ru"><head><meta charset="utf-8"><title>Ваши данные</title></head><body>',
+    ...body,
+    '</body></html>',
+  ].join('\n');
+}
+
+class PrivacyService {
+  async exportData(userId: number): Promise<UserDataExport> {
+    const sessions = await contextManager.listSessions();
+    const groupMessages = sessions
+      .filter((session) => session.userId === 0)
+      .map((session) => ({
+        sessionKey: session.sessionKey,
+        chatId: session.chatId,
+        messages: splitAuthoredMessages(session.history, userId).authored,
+      }))
+      .filter((group) => group.messages.length > 0);
+
+    return {
+      userId,
+      exportedAt: Date.now(),
+      sessions: sessions.filter((session) => session.userId === userId),
+      groupMessages,
+      feedback: (await contextManager.listFeedback()).filter((record) => record.userId === userId),
+      usage: (await contextManager.listUsage('')).filter((record) => record.userId === userId),
+      ban: await contextManager.getBan(userId),
+    };
+  }
+
+  // Erases the user's sessions, their turns in group sessions, ratings, usage and log entries.
+  // A ban stays: erasing data must not be a way around moderation
+  async forget(userId: number): Promise<DeletionRecord> {
+    const sessions = await contextManager.listSessions();
+    const ownSessionKeys = sessions.filter((session) => session.userId === userId).map((session) => session.sessionKey);
+
+    let groupMessages = 0;
+    const removedReplyIds = new Set<string>();
+    for (const session of sessions.filter((item) => item.userId === 0)) {
+      if (splitAuthoredMessages(session.history, userId).authored.length === 0) continue;
+
+      await contextManager.updateSession(session.sessionKey, (current) => {
+        const { kept, authored } = splitAuthoredMessages(current.history, userId);
+        current.history = kept;
+        groupMessages += authored.length;
+        authored.forEach((message) => message.id && removedReplyIds.add(message.id));
+      });
+    }
+
+    const feedback = (await contextManager.listFeedback()).filter((record) =>
+      record.userId === userId || ownSessionKeys.includes(record.sessionKey) || removedReplyIds.has(record.messageId));
+    await contextManager.deleteFeedback(feedback.map((record) => record.messageId));
+
+    const usage = (await contextManager.listUsage('')).filter((record) => record.userId === userId);
+    await contextManager.deleteUsage(userId);
+
+    await contextManager.deleteSessions(ownSessionKeys);
+    const logEntries = await eraseUserLogEntries(userId);
+    // Whole-database backups hold everyone's data and may be the only copy of a damaged file,
+    // so they stay; the record tells the operator they may still contain this user
+    const backups = (await contextManager.listDatabaseCopies()).length;
+
+    const record: DeletionRecord = {
+      id: crypto.randomBytes(4).toString('hex'),
+      userId,
+      erasedAt: Date.now(),
+      sessions: ownSessionKeys.length,
+      groupMessages,
+      feedback: feedback.length,
+      usage: usage.length,
+      logEntries,
+      backups,
+    };
+    await contextManager.saveDeletion(record);
+
+    // Only the audit id: a log line with the userId would undo the log erasure
+    logger.warn('User data erased', { deletionId: record.id });
+    return record;
+  }
+
+  async formatDeletions(): Promise<string> {
+    const deletions = await contextManager.listDeletions();
+    if (deletions.length === 0) {
+      return 'Удалений данных по запросу пользователей не было.';
+    }
+    const lines = deletions
+      .sort((a, b) => b.erasedAt - a.erasedAt)
+      .map((record) => `• ${formatDateTime(record.erasedAt)} — ${record.userId} [${record.id}]: сессий ${record.sessions}, сообщений в группах ${record.groupMessages}, оценок ${record.feedback}, дней расхода ${record.usage}, строк лога ${record.logEntries}${record.backups ? `, может остаться в копиях базы: ${record.backups} (/admin backups)` : ''}`);
+    return ['🗑 Удаления данных (/forget):', ...lines].join('\n');
+  }
+}
+
+export const privacyService = new PrivacyService();
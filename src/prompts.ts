@@ -0,0 +1,264 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+import { contextManager, UserSession } from './utils/context';
+import { logger } from './utils/logger';
+
+export const DEFAULT_PROFILE = 'default';
+const RELOAD_DEBOUNCE_MS = 300;
+
+export interface PromptProfile {
+  persona: string;
+  tone?: string;
+  style?: string;
+  specialization?: string[];
+  system_instructions?: string[];
+  // greeting, relapse_response, risk_protocol and free-form snippets
+  response_templates?: Record<string, string>;
+}
+
+export interface ResolvedPrompt extends PromptProfile {
+  name: string;
+  // `<profile>@<hash>`, recorded on every reply so ratings can be compared across prompt edits
+  version: string;
+}
+
+export class PromptValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`prompt file is invalid:\n${errors.join('\n')}`);
+    this.name = 'PromptValidationError';
+  }
+}
+
+// Used only when the prompt file cannot be loaded at startup
+const FALLBACK_PROFILE: PromptProfile = {
+  persona: 'Ты — дружелюбный и умный AI-помощник. Помни контекст разговора и будь полезным.',
+  tone: 'дружелюбный, экспертный, спокойный',
+  style: 'на русском языке, без лишней воды',
+  system_instructions: [],
+};
+
+const STRING_FIELDS = ['persona', 'tone', 'style'] as const;
+const LIST_FIELDS = ['specialization', 'system_instructions'] as const;
+const PROFILE_FIELDS = new Set<string>([...STRING_FIELDS, ...LIST_FIELDS, 'response_templates']);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Collects every problem instead of stopping at the first, so one edit fixes them all
+function validateProfile(raw: unknown, at: string, requirePersona: boolean, errors: string[]): void {
+  if (!isObject(raw)) {
+    errors.push(`${at}: ожидается объект`);
+    return;
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!PROFILE_FIELDS.has(key)) errors.push(`${at}.${key}: неизвестное поле`);
+  }
+  for (const field of STRING_FIELDS) {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') errors.push(`${at}.${field}: ожидается строка`);
+  }
+  if (requirePersona && (raw.persona === undefined || (typeof raw.persona === 'string' && !raw.persona.trim()))) {
+    errors.push(`${at}.persona: обязательное поле`);
+  }
+  for (const field of LIST_FIELDS) {
+    const value = raw[field];
+    if (value !== undefined && !(Array.isArray(value) && value.every((item) => typeof item === 'string'))) {
+      errors.push(`${at}.${field}: ожидается массив строк`);
+    }
+  }
+
+  const templates = raw.response_templates;
+  if (templates !== undefined) {
+    if (!isObject(templates)) {
+      errors.push(`${at}.response_templates: ожидается объект`);
+    } else {
+      for (const [key, value] of Object.entries(templates)) {
+        if (typeof value !== 'string') errors.push(`${at}.response_templates.${key}: ожидается строка`);
+      }
+    }
+  }
+}
+
+/**
+ * Accepts either a single profile (the original prompt.json layout) or
+ * `{ "default_profile": "...", "profiles": { "<name>": {...} } }`. Named profiles
+ * only list what differs: missing fields and templates come from the default one.
+ */
+export function parsePromptFile(raw: unknown): { defaultName: string; profiles: ResolvedPrompt[] } {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    throw new PromptValidationError(['ожидается JSON-объект']);
+  }
+
+  if (raw.profiles === undefined) {
+    validateProfile(raw, DEFAULT_PROFILE, true, errors);
+    if (errors.length > 0) throw new PromptValidationError(errors);
+    return { defaultName: DEFAULT_PROFILE, profiles: [resolveProfile(DEFAULT_PROFILE, raw as unknown as PromptProfile)] };
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (key !== 'profiles' && key !== 'default_profile') errors.push(`${key}: неизвестное поле`);
+  }
+  const defaultName = raw.default_profile ?? DEFAULT_PROFILE;
+  if (typeof defaultName !== 'string') {
+    errors.push('default_profile: ожидается строка');
+  }
+  if (!isObject(raw.profiles)) {
+    errors.push('profiles: ожидается объект');
+  } else if (typeof defaultName === 'string' && !(defaultName in raw.profiles)) {
+    errors.push(`profiles.${defaultName}: профиль по умолчанию не найден`);
+  }
+  if (errors.length > 0) throw new PromptValidationError(errors);
+
+  const profiles = raw.profiles as Record<string, unknown>;
+  for (const [name, profile] of Object.entries(profiles)) {
+    validateProfile(profile, `profiles.${name}`, name === defaultName, errors);
+  }
+  if (errors.length > 0) throw new PromptValidationError(errors);
+
+  const base = profiles[defaultName as string] as PromptProfile;
+  return {
+    defaultName: defaultName as string,
+    profiles: Object.entries(profiles).map(([name, profile]) => {
+      const own = profile as Partial<PromptProfile>;
+      return resolveProfile(name, {
+        ...base,
+        ...own,
+        response_templates: { ...base.response_templates, ...own.response_templates },
+      });
+    }),
+  };
+}
+
+function resolveProfile(name: string, profile: PromptProfile): ResolvedPrompt {
+  const hash = crypto.createHash('sha256').update(JSON.stringify(profile)).digest('hex').substring(0, 8);
+  return { ...profile, name, version: `${name}@${hash}` };
+}
+
+// PROMPT_PATH is taken relative to the working directory; the default sits next to this
+// module, in src/ under ts-node and in dist/ where the build copies it
+export const getPromptPath = (): string =>
+  config.prompt.path
+    ? path.resolve(process.cwd(), config.prompt.path)
+    : path.resolve(__dirname, 'prompt.json');
+
+class PromptService {
+  private profiles = new Map<string, ResolvedPrompt>([[DEFAULT_PROFILE, resolveProfile(DEFAULT_PROFILE, FALLBACK_PROFILE)]]);
+  private defaultName = DEFAULT_PROFILE;
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  // A broken file at startup leaves the built-in fallback in place rather than stopping the bot
+  async initialize(): Promise<void> {
+    try {
+      await this.reload();
+    } catch (error) {
+      logger.warn('Could not load prompt file, using defaults', {
+        path: getPromptPath(),
+        errors: error instanceof PromptValidationError ? error.errors : [(error as Error).message],
+      });
+    }
+
+    if (config.prompt.hotReload) {
+      this.watch();
+    }
+  }
+
+  // Replaces the profiles only when the whole file is valid
+  async reload(): Promise<ResolvedPrompt[]> {
+    const content = await fs.promises.readFile(getPromptPath(), 'utf-8');
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      throw new PromptValidationError([(error as Error).message]);
+    }
+
+    const { defaultName, profiles } = parsePromptFile(raw);
+    this.profiles = new Map(profiles.map((profile) => [profile.name, profile]));
+    this.defaultName = defaultName;
+
+    logger.info('Prompt loaded', { path: getPromptPath(), versions: profiles.map((profile) => profile.version) });
+    return profiles;
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+  }
+
+  list(): ResolvedPrompt[] {
+    return [...this.profiles.values()];
+  }
+
+  has(name: string): boolean {
+    return this.profiles.has(name);
+  }
+
+  getDefault(): ResolvedPrompt {
+    return this.profiles.get(this.defaultName)!;
+  }
+
+  // A profile removed from the file falls back to the default one
+  get(name?: string): ResolvedPrompt {
+    return (name && this.profiles.get(name)) || this.getDefault();
+  }
+
+  // A profile assigned to the user wins over one assigned to the chat
+  async resolve(session: UserSession | null): Promise<ResolvedPrompt> {
+    if (!session) return this.getDefault();
+
+    let name = session.settings?.promptProfile;
+    // Group chat ids are negative
+    if (!name && session.chatId < 0) {
+      name = (await contextManager.getGroupSettings(session.chatId)).promptProfile;
+    }
+    return this.get(name);
+  }
+
+  // undefined returns the user to the default profile; returns the number of sessions changed
+  async assignToUser(userId: number, name: string | undefined): Promise<number> {
+    const sessions = (await contextManager.listSessions()).filter((session) => session.userId === userId);
+    for (const session of sessions) {
+      await contextManager.updateSettings(session.sessionKey, { promptProfile: name });
+    }
+    return sessions.length;
+  }
+
+  async assignToChat(chatId: number, name: string | undefined): Promise<void> {
+    await contextManager.updateGroupSettings(chatId, { promptProfile: name });
+  }
+
+  // Watches the directory rather than the file: editors save by replacing the file,
+  // which ends a watch on the old one
+  private watch(): void {
+    const promptPath = getPromptPath();
+    try {
+      this.watcher = fs.watch(path.dirname(promptPath), (_event, filename) => {
+        if (filename !== path.basename(promptPath)) return;
+
+        // One save fires several events
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          this.reload().catch((error) => {
+            logger.error('Prompt file change rejected, keeping the previous prompt', {
+              path: promptPath,
+              errors: error instanceof PromptValidationError ? error.errors : [(error as Error).message],
+            });
+          });
+        }, RELOAD_DEBOUNCE_MS);
+      });
+    } catch (error) {
+      logger.warn('Prompt hot reload unavailable', { path: promptPath, error: (error as Error).message });
+    }
+  }
+}
+
+export const promptService = new PromptService();
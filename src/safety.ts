@@ -0,0 +1,164 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from './config';
+import { geminiService } from './gemini';
+import { logger, logSafetyIncident } from './utils/logger';
+
+export type RiskLevel = 'none' | 'elevated' | 'high';
+export type RiskCategory = 'suicide' | 'self_harm' | 'overdose' | 'relapse';
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  categories: RiskCategory[];
+  matchedRules: string[];
+  // Missing when the classifier is disabled, was skipped or timed out
+  classifierUrgency?: 'low' | 'medium' | 'high';
+  // Comes with the same classifier call; the mood journal reuses it
+  emotion?: string;
+}
+
+interface RiskRule {
+  id: string;
+  category: RiskCategory;
+  level: Exclude<RiskLevel, 'none'>;
+  pattern: RegExp;
+}
+
+// Stems rather than whole words: Russian inflection breaks exact matches, and \b ignores Cyrillic
+const RISK_RULES: RiskRule[] = [
+  {
+    id: 'suicide',
+    category: 'suicide',
+    level: 'high',
+    pattern: /(покончить с собой|убить себя|самоубийств|суицид|не хочу жить|не хочется жить|незачем жить|хочу умереть|уйти из жизни|лучше бы меня не было|повеситься|kill myself|suicid|want to die|end my life)/iu,
+  },
+  {
+    id: 'self_harm',
+    category: 'self_harm',
+    level: 'high',
+    pattern: /(порезать себя|режу себя|порезал(а)? себя|резать вены|вскрыть вены|причинить себе (вред|боль)|самоповрежд|self[- ]?harm|cut myself|hurt myself)/iu,
+  },
+  {
+    id: 'overdose',
+    category: 'overdose',
+    level: 'high',
+    pattern: /(передоз|наглотал(ся|ась)|выпил(а)? (все|много) таблет|отравил(ся|ась)|overdose)/iu,
+  },
+  {
+    id: 'withdrawal',
+    category: 'relapse',
+    level: 'high',
+    // Seizures count only next to drinking: on their own they are mostly leg cramps or a child's fever
+    pattern: /(белая горячка|белочк|не могу (остановиться|перестать) пить|выйти из запоя|судорог[^.!?\n]{0,40}(похмел|запо|алкогол|бросил(а)? пить|не пью|выпив)|(похмел|запо|алкогол|бросил(а)? пить|не пью|выпив)[^.!?\n]{0,40}судорог)/iu,
+  },
+  {
+    id: 'relapse',
+    category: 'relapse',
+    level: 'elevated',
+    pattern: /(сорвал(ся|ась)|срыв|запой|снова (пью|выпил)|опять (пью|выпил)|relapse)/iu,
+  },
+];
+
+const LEVEL_ORDER: RiskLevel[] = ['none', 'elevated', 'high'];
+
+const maxLevel = (a: RiskLevel, b: RiskLevel): RiskLevel =>
+  LEVEL_ORDER.indexOf(a) >= LEVEL_ORDER.indexOf(b) ? a : b;
+
+const DEFAULT_CRISIS_MESSAGE =
+  'Мне очень важно, что ты об этом написал. Ты сейчас не один. ' +
+  'Если есть риск для жизни — пожалуйста, прямо сейчас позвони на линию помощи или попроси кого-то рядом побыть с тобой.';
+
+class SafetyService {
+  // Keyword pass; cheap enough to run on every message
+  matchRules(text: string): RiskAssessment {
+    const matched = RISK_RULES.filter((rule) => rule.pattern.test(text));
+    return {
+      level: matched.reduce<RiskLevel>((level, rule) => maxLevel(level, rule.level), 'none'),
+      categories: [...new Set(matched.map((rule) => rule.category))],
+      matchedRules: matched.map((rule) => rule.id),
+    };
+  }
+
+  async assess(text: string, userId?: number): Promise<RiskAssessment> {
+    const assessment = this.matchRules(text);
+    // A rule hit is already conclusive; the classifier catches what the keywords miss
+    if (assessment.level === 'high' || !config.safety.useClassifier) {
+      return assessment;
+    }
+
+    const analysis = await this.classify(text, userId);
+    if (analysis) {
+      const urgency = analysis.urgency;
+      assessment.classifierUrgency = urgency;
+      assessment.emotion = analysis.emotion;
+      const classifierLevel: RiskLevel = urgency === 'high' ? 'high' : urgency === 'medium' ? 'elevated' : 'none';
+      assessment.level = maxLevel(assessment.level, classifierLevel);
+    }
+
+    return assessment;
+  }
+
+  // Crisis template followed by the hotline list
+  buildCrisisMessage(template?: string): string {
+    const message = config.safety.crisisMessage || template || DEFAULT_CRISIS_MESSAGE;
+    if (config.safety.resources.length === 0) {
+      return message;
+    }
+    const resources = config.safety.resources.map((resource) => `• ${resource}`).join('\n');
+    return `${message}\n\n**Куда обратиться:**\n${resources}`;
+  }
+
+  // Logs the incident and, for high risk, alerts the operators
+  async reportIncident(
+    bot: TelegramBot,
+    incident: { userId: number; chatId: number; username?: string; message: string; assessment: RiskAssessment }
+  ): Promise<void> {
+    const { assessment } = incident;
+    logSafetyIncident({
+      userId: incident.userId,
+      chatId: incident.chatId,
+      level: assessment.level,
+      categories: assessment.categories,
+      matchedRules: assessment.matchedRules,
+      classifierUrgency: assessment.classifierUrgency,
+      message: incident.message,
+    });
+
+    if (assessment.level !== 'high') return;
+
+    const who = incident.username ? `@${incident.username}` : `id ${incident.userId}`;
+    const alert = [
+      '🚨 Кризисный сигнал',
+      `Пользователь: ${who}, чат ${incident.chatId}`,
+      `Уровень: ${assessment.level}`,
+      `Категории: ${assessment.categories.join(', ') || 'по оценке классификатора'}`,
+      ...(config.safety.alertIncludesMessage ? [`Сообщение: ${incident.message.substring(0, 500)}`] : []),
+    ].join('\n');
+
+    for (const operatorChatId of config.safety.operatorChatIds) {
+      try {
+        await bot.sendMessage(operatorChatId, alert);
+      } catch (error) {
+        logger.error('Failed to notify operator', { operatorChatId, error: (error as Error).message });
+      }
+    }
+  }
+
+  private async classify(text: string, userId?: number): Promise<{ urgency: 'low' | 'medium' | 'high'; emotion: string } | undefined> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => resolve(undefined), config.safety.classifierTimeoutMs);
+    });
+
+    try {
+      const analysis = await Promise.race([geminiService.analyzeUserIntent(text, userId), timeout]);
+      if (!analysis) {
+        logger.warn('Safety classifier timed out, relying on rules only');
+      }
+      return analysis;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const safetyService = new SafetyService();
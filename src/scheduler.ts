@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import cron from 'node-cron';
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from './config';
+import { geminiService } from './gemini';
+import { promptService } from './prompts';
+import { contextManager, Reminder, ReminderKind, UserSchedule, UserSession } from './utils/context';
+import { logger } from './utils/logger';
+import { safeSendMessage } from './utils/telegram';
+import { getLocalTime, LocalTime, toMinutes } from './utils/time';
+import { buildMoodKeyboard } from './mood';
+
+// A late tick still delivers; anything older was missed while the bot was down and is skipped
+const DELIVERY_WINDOW_MINUTES = 5;
+
+export const REMINDER_LABELS: Record<ReminderKind, string> = {
+  mood: '🙂 Настроение',
+  medication: '💊 Лекарство',
+  sleep: '🌙 Сон',
+  custom: '⏰ Напоминание',
+};
+
+const FALLBACK_MESSAGES: Record<ReminderKind, string> = {
+  mood: 'Как ты сейчас? Оцени настроение от 1 до 10 — одной цифрой достаточно.',
+  medication: '💊 Время принять лекарство.',
+  sleep: '🌙 Пора готовиться ко сну: экран в сторону, свет потише.',
+  custom: 'Ты просил напомнить.',
+};
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Accepts 9:00, 09:00 and 21.30
+export function parseTime(input: string): string | null {
+  const match = /^(\d{1,2})[:.](\d{2})$/.exec(input.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
+
+// Quiet hours may wrap past midnight (23:00–08:00)
+export function isQuietTime(schedule: UserSchedule, minutes: number): boolean {
+  if (!schedule.quietHours) return false;
+
+  const start = toMinutes(schedule.quietHours.start);
+  const end = toMinutes(schedule.quietHours.end);
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+export function isDue(reminder: Reminder, local: LocalTime): boolean {
+  if (reminder.lastSentDate === local.date) return false;
+  if (reminder.repeat === 'once' && reminder.date !== local.date) return false;
+
+  const lateBy = local.minutes - toMinutes(reminder.time);
+  return lateBy >= 0 && lateBy < DELIVERY_WINDOW_MINUTES;
+}
+
+const createDefaultSchedule = (): UserSchedule => ({
+  timezone: config.scheduler.defaultTimezone,
+  quietHours: { start: config.scheduler.quietHoursStart, end: config.scheduler.quietHoursEnd },
+  reminders: [],
+});
+
+class SchedulerService {
+  private bot: TelegramBot | null = null;
+  private tasks: cron.ScheduledTask[] = [];
+  // Every session with at least one reminder, so a tick never has to scan storage
+  private schedules = new Map<string, UserSchedule>();
+  private isTicking = false;
+
+  async start(bot: TelegramBot): Promise<void> {
+    this.bot = bot;
+    if (!config.scheduler.enabled) return;
+
+    for (const session of await contextManager.listSessions()) {
+      this.sync(session);
+    }
+
+    this.scheduleTask('* * * * *', 'reminders', () => this.tick());
+    logger.info('Scheduler started', { sessionsWithReminders: this.schedules.size });
+  }
+
+  // Runs a recurring job; errors are logged and never stop the schedule
+  scheduleTask(expression: string, name: string, task: () => Promise<void>): void {
+    this.tasks.push(cron.schedule(expression, () => {
+      task().catch((error) => {
+        logger.error('Scheduled task failed', { task: name, error: (error as Error).message });
+      });
+    }));
+  }
+
+  stop(): void {
+    this.tasks.forEach((task) => task.stop());
+    this.tasks = [];
+  }
+
+  getSchedule(session: UserSession): UserSchedule {
+    return session.schedule || createDefaultSchedule();
+  }
+
+  // Returns null once the per-user limit is reached
+  async addReminder(
+    sessionKey: string,
+    input: { kind: ReminderKind; time: string; repeat: Reminder['repeat']; text?: string }
+  ): Promise<Reminder | null> {
+    let added: Reminder | null = null;
+    const session = await contextManager.updateSession(sessionKey, (current) => {
+      const schedule = current.schedule || createDefaultSchedule();
+      if (schedule.reminders.length >= config.scheduler.maxRemindersPerUser) return;
+
+      const now = Date.now();
+      const reminder: Reminder = {
+        id: crypto.randomBytes(4).toString('hex'),
+        ...input,
+        createdAt: now,
+      };
+
+      // A one-off time that has already passed today means tomorrow
+      if (input.repeat === 'once') {
+        const local = getLocalTime(schedule.timezone, now);
+        reminder.date = toMinutes(input.time) > local.minutes
+          ? local.date
+          : getLocalTime(schedule.timezone, now + 24 * 60 * 60 * 1000).date;
+      }
+
+      schedule.reminders.push(reminder);
+      current.schedule = schedule;
+      added = reminder;
+    });
+
+    if (session) this.sync(session);
+    return added;
+  }
+
+  async removeReminder(sessionKey: string, id: string): Promise<boolean> {
+    let removed = false;
+    const session = await contextManager.updateSession(sessionKey, (current) => {
+      if (!current.schedule) return;
+      const before = current.schedule.reminders.length;
+      current.schedule.reminders = current.schedule.reminders.filter((reminder) => reminder.id !== id);
+      removed = current.schedule.reminders.length !== before;
+    });
+
+    if (session) this.sync(session);
+    return removed;
+  }
+
+  async setTimezone(sessionKey: string, timezone: string): Promise<void> {
+    const session = await contextManager.updateSession(sessionKey, (current) => {
+      current.schedule = { ...(current.schedule || createDefaultSchedule()), timezone };
+    });
+    if (session) this.sync(session);
+  }
+
+  async setQuietHours(sessionKey: string, quietHours: UserSchedule['quietHours']): Promise<void> {
+    const session = await contextManager.updateSession(sessionKey, (current) => {
+      current.schedule = { ...(current.schedule || createDefaultSchedule()), quietHours };
+    });
+    if (session) this.sync(session);
+  }
+
+  private sync(session: UserSession): void {
+    if (session.schedule?.reminders.length) {
+      this.schedules.set(session.sessionKey, session.schedule);
+    } else {
+      this.schedules.delete(session.sessionKey);
+    }
+  }
+
+  private async tick(): Promise<void> {
+    // A slow Gemini call must not let two ticks deliver the same reminder
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      for (const [sessionKey, schedule] of [...this.schedules]) {
+        const local = getLocalTime(schedule.timezone);
+        const quiet = isQuietTime(schedule, local.minutes);
+        const due = schedule.reminders.filter((reminder) => isDue(reminder, local));
+        // Held back by quiet hours that have ended since
+        const released = quiet ? [] : schedule.reminders.filter((reminder) => reminder.deferred);
+        const expired = schedule.reminders.filter((reminder) =>
+          reminder.repeat === 'once' && !reminder.deferred && reminder.date! < local.date);
+        if (due.length === 0 && released.length === 0 && expired.length === 0) continue;
+
+        // During quiet hours due reminders wait instead of going out
+        const outgoing = quiet ? [] : [...released, ...due];
+        const dueIds = new Set(due.map((reminder) => reminder.id));
+        const outgoingIds = new Set(outgoing.map((reminder) => reminder.id));
+        const finishedIds = new Set([
+          ...expired.map((reminder) => reminder.id),
+          ...outgoing.filter((reminder) => reminder.repeat === 'once').map((reminder) => reminder.id),
+        ]);
+
+        // Marked before sending: a crash mid-delivery skips a reminder rather than repeating it
+        const session = await contextManager.updateSession(sessionKey, (current) => {
+          if (!current.schedule) return;
+          current.schedule.reminders = current.schedule.reminders
+            .filter((reminder) => !finishedIds.has(reminder.id))
+            .map((reminder) => {
+              if (!dueIds.has(reminder.id) && !outgoingIds.has(reminder.id)) return reminder;
+              // Re-set below only while the reminder is still held back
+              const updated: Reminder = { ...reminder };
+              delete updated.deferred;
+              return {
+                ...updated,
+                ...(dueIds.has(reminder.id) && { lastSentDate: local.date }),
+                ...(!outgoingIds.has(reminder.id) && { deferred: true }),
+              };
+            });
+        });
+
+        if (!session) {
+          this.schedules.delete(sessionKey);
+          continue;
+        }
+        this.sync(session);
+
+        if (quiet && due.length > 0) {
+          logger.info('Reminders deferred until quiet hours end', { sessionKey, count: due.length });
+        }
+
+        for (const reminder of outgoing) {
+          await this.deliver(session, reminder);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  private async deliver(session: UserSession, reminder: Reminder): Promise<void> {
+    if (!this.bot) return;
+
+    let text: string;
+    try {
+      const prompt = await promptService.resolve(session);
+      text = await geminiService.generateReminderMessage(reminder, session.history, session.userMemory, session.userId, prompt);
+    } catch {
+      text = FALLBACK_MESSAGES[reminder.kind];
+    }
+    if (reminder.kind === 'custom' && reminder.text) {
+      text = `⏰ ${reminder.text}\n\n${text}`;
+    }
+    if (reminder.deferred) {
+      text = `🌙 Напоминание на ${reminder.time}, отложенное из-за тихих часов.\n\n${text}`;
+    }
+
+    try {
+      await safeSendMessage(this.bot, session.chatId, text, reminder.kind === 'mood' ? { reply_markup: buildMoodKeyboard() } : {});
+      // Keeps the reminder in context, so a reply to it makes sense to the model
+      await contextManager.addMessage(session.sessionKey, {
+        role: 'assistant',
+        content: text,
+        timestamp: Date.now(),
+      });
+      logger.info('Reminder delivered', { sessionKey: session.sessionKey, kind: reminder.kind, reminderId: reminder.id });
+    } catch (error) {
+      logger.error('Reminder delivery failed', {
+        sessionKey: session.sessionKey,
+        reminderId: reminder.id,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export const schedulerService = new SchedulerService();
@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import http from 'http';
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from './config';
+import { geminiService, GeminiError } from './gemini';
+import { contextManager } from './utils/context';
+import { logger, logError } from './utils/logger';
+
+// Telegram updates are small; anything bigger is not from Telegram
+const MAX_BODY_BYTES = 1024 * 1024;
+const GEMINI_CHECK_TTL_MS = 30 * 1000;
+
+type CheckResult = { ok: boolean; error?: string };
+
+// Derived from the token so the webhook path is unguessable without any extra setup
+const tokenDigest = (): string =>
+  crypto.createHash('sha256').update(config.telegram.token).digest('hex');
+
+export const getWebhookPath = (): string => `/telegram/${tokenDigest().slice(0, 32)}`;
+
+export const getWebhookSecret = (): string => config.server.webhookSecret || tokenDigest().slice(32);
+
+// Webhooks need a public URL; development always polls so a local run never steals the production webhook
+export const useWebhook = (): boolean => !!config.server.webhookUrl && process.env.NODE_ENV !== 'development';
+
+function secretMatches(header: string | string[] | undefined): boolean {
+  if (typeof header !== 'string') return false;
+  const expected = Buffer.from(getWebhookSecret());
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // The rest of an oversized body is drained and dropped
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+class BotServer {
+  private server: http.Server | null = null;
+  private geminiCheck: { result: CheckResult; checkedAt: number } | null = null;
+
+  // `bot` is null in polling mode: only the health endpoints are served then
+  async start(bot: TelegramBot | null): Promise<void> {
+    const server = http.createServer((req, res) => {
+      this.handle(bot, req, res).catch((error) => {
+        logError(error as Error, 'http request');
+        if (!res.headersSent) {
+          sendJson(res, 500, { error: 'internal' });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(config.server.port, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    logger.info(`🌐 HTTP server listening on port ${config.server.port}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handle(bot: TelegramBot | null, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = (req.url || '/').split('?')[0];
+
+    if (req.method === 'GET' && path === '/healthz') {
+      const storage = await this.checkStorage();
+      sendJson(res, storage.ok ? 200 : 503, { status: storage.ok ? 'ok' : 'fail', checks: { storage } });
+      return;
+    }
+
+    if (req.method === 'GET' && path === '/readyz') {
+      const [storage, gemini] = await Promise.all([this.checkStorage(), this.checkGemini()]);
+      const ok = storage.ok && gemini.ok;
+      sendJson(res, ok ? 200 : 503, { status: ok ? 'ok' : 'fail', checks: { storage, gemini } });
+      return;
+    }
+
+    if (bot && req.method === 'POST' && path === getWebhookPath()) {
+      if (!secretMatches(req.headers['x-telegram-bot-api-secret-token'])) {
+        logger.warn('Webhook request with a wrong secret token', { ip: req.socket.remoteAddress });
+        sendJson(res, 401, { error: 'unauthorized' });
+        return;
+      }
+
+      let update: TelegramBot.Update;
+      try {
+        update = JSON.parse(await readBody(req));
+      } catch (error) {
+        sendJson(res, 400, { error: (error as Error).message });
+        return;
+      }
+
+      // Answer right away: handlers can take longer than Telegram is willing to wait,
+      // and a non-2xx answer makes Telegram redeliver the same update
+      sendJson(res, 200, { ok: true });
+      bot.processUpdate(update);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'not found' });
+  }
+
+  private async checkStorage(): Promise<CheckResult> {
+    try {
+      await contextManager.getStatistics();
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: (error as Error).message };
+    }
+  }
+
+  // Cached so a probe every few seconds does not turn into a stream of API calls
+  private async checkGemini(): Promise<CheckResult> {
+    if (this.geminiCheck && Date.now() - this.geminiCheck.checkedAt < GEMINI_CHECK_TTL_MS) {
+      return this.geminiCheck.result;
+    }
+
+    let result: CheckResult;
+    try {
+      await geminiService.ping();
+      result = { ok: true };
+    } catch (error) {
+      // Being rate limited still means the key works and the API answers
+      result = error instanceof GeminiError && error.kind === 'rate_limit'
+        ? { ok: true }
+        : { ok: false, error: (error as Error).message };
+    }
+
+    this.geminiCheck = { result, checkedAt: Date.now() };
+    return result;
+  }
+}
+
+export const botServer = new BotServer();
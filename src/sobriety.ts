@@ -0,0 +1,182 @@
+import { contextManager, SobrietyTracker } from './utils/context';
+import { logger } from './utils/logger';
+import { daysBetween, getLocalTime, getUserTimezone, startOfLocalDay } from './utils/time';
+
+export const SOBRIETY_MILESTONES = [1, 3, 7, 14, 30, 60, 90, 180, 365];
+
+export interface SobrietyStatus {
+  streakDays: number;
+  bestStreakDays: number;
+  relapseCount: number;
+  lastRelapseAt?: number;
+}
+
+export interface CheckInResult {
+  status: SobrietyStatus;
+  alreadyCheckedIn: boolean;
+  // Set when this check-in reached a milestone not celebrated yet
+  milestone?: number;
+}
+
+const localDate = (date: number, timezone: string): string => getLocalTime(timezone, date).date;
+
+// Calendar days in the user's timezone, so a streak grows at their midnight rather than 24 hours after the start
+export const getStreakDays = (startDate: number, timezone: string, now: number = Date.now()): number =>
+  Math.max(0, daysBetween(localDate(startDate, timezone), localDate(now, timezone)));
+
+// After a year, every further anniversary counts
+export function highestMilestone(streakDays: number): number {
+  if (streakDays >= 365) {
+    return Math.floor(streakDays / 365) * 365;
+  }
+  return [...SOBRIETY_MILESTONES].reverse().find((milestone) => milestone <= streakDays) || 0;
+}
+
+export function getSobrietyStatus(tracker: SobrietyTracker, timezone: string, now: number = Date.now()): SobrietyStatus {
+  const streakDays = getStreakDays(tracker.startDate, timezone, now);
+  const lastRelapse = tracker.relapses[tracker.relapses.length - 1];
+  return {
+    streakDays,
+    bestStreakDays: Math.max(tracker.bestStreakDays, streakDays),
+    relapseCount: tracker.relapses.length,
+    lastRelapseAt: lastRelapse?.date,
+  };
+}
+
+// Parses ДД.ММ.ГГГГ into the start of that day in the user's timezone; null for malformed or future dates
+export function parseStartDate(input: string, timezone: string, now: number = Date.now()): number | null {
+  const match = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(input.trim());
+  if (!match) return null;
+
+  const [, day, month, year] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCDate() !== day || date.getUTCMonth() !== month - 1) {
+    return null;
+  }
+  const dateKey = date.toISOString().slice(0, 10);
+  if (dateKey > localDate(now, timezone)) {
+    return null;
+  }
+  return startOfLocalDay(dateKey, timezone);
+}
+
+export const formatDays = (days: number): string => {
+  const lastTwo = days % 100;
+  const last = days % 10;
+  if (lastTwo >= 11 && lastTwo <= 14) return `${days} дней`;
+  if (last === 1) return `${days} день`;
+  if (last >= 2 && last <= 4) return `${days} дня`;
+  return `${days} дней`;
+};
+
+class SobrietyService {
+  async getTracker(sessionKey: string): Promise<SobrietyTracker | undefined> {
+    const session = await contextManager.getSession(sessionKey);
+    return session?.sobriety;
+  }
+
+  // Starts (or restarts) counting; earlier relapses and the best streak are kept
+  async start(sessionKey: string, startDate: number = Date.now()): Promise<SobrietyStatus | null> {
+    let status: SobrietyStatus | null = null;
+    await contextManager.updateSession(sessionKey, (session) => {
+      const previous = session.sobriety;
+      const timezone = getUserTimezone(session);
+      session.sobriety = {
+        startDate,
+        bestStreakDays: previous ? getSobrietyStatus(previous, timezone).bestStreakDays : 0,
+        relapses: previous?.relapses || [],
+        checkInCount: previous?.checkInCount || 0,
+        lastCheckInDate: previous?.lastCheckInDate,
+        // Milestones already behind a backdated start are not celebrated retroactively
+        celebratedMilestone: highestMilestone(getStreakDays(startDate, timezone)),
+      };
+      status = getSobrietyStatus(session.sobriety, timezone);
+    });
+
+    logger.info('Sobriety tracking started', { sessionKey, startDate });
+    return status;
+  }
+
+  async checkIn(sessionKey: string, now: number = Date.now()): Promise<CheckInResult | null> {
+    let result: CheckInResult | null = null;
+    await contextManager.updateSession(sessionKey, (session) => {
+      const tracker = session.sobriety;
+      if (!tracker) return;
+
+      const timezone = getUserTimezone(session);
+      const today = localDate(now, timezone);
+      const alreadyCheckedIn = tracker.lastCheckInDate === today;
+      if (!alreadyCheckedIn) {
+        tracker.lastCheckInDate = today;
+        tracker.checkInCount++;
+      }
+
+      result = { status: getSobrietyStatus(tracker, timezone, now), alreadyCheckedIn };
+      const milestone = highestMilestone(result.status.streakDays);
+      if (milestone > tracker.celebratedMilestone) {
+        tracker.celebratedMilestone = milestone;
+        result.milestone = milestone;
+      }
+    });
+    return result;
+  }
+
+  // Ends the current streak; returns its length
+  async logRelapse(sessionKey: string, note?: string, now: number = Date.now()): Promise<number | null> {
+    let endedStreak: number | null = null;
+    await contextManager.updateSession(sessionKey, (session) => {
+      const tracker = session.sobriety;
+      if (!tracker) return;
+
+      // A note sent right after the relapse button belongs to that same relapse
+      const timezone = getUserTimezone(session);
+      const last = tracker.relapses[tracker.relapses.length - 1];
+      if (note && last && !last.note && localDate(last.date, timezone) === localDate(now, timezone)) {
+        last.note = note;
+        endedStreak = last.streakDays;
+        return;
+      }
+
+      const streakDays = getStreakDays(tracker.startDate, timezone, now);
+      tracker.relapses.push({ date: now, streakDays, ...(note && { note }) });
+      tracker.bestStreakDays = Math.max(tracker.bestStreakDays, streakDays);
+      tracker.startDate = now;
+      tracker.celebratedMilestone = 0;
+      // A relapse day is not a sober check-in
+      tracker.lastCheckInDate = localDate(now, timezone);
+      endedStreak = streakDays;
+    });
+
+    if (endedStreak !== null) {
+      logger.info('Relapse logged', { sessionKey, endedStreak, hasNote: !!note });
+    }
+    return endedStreak;
+  }
+
+  formatProgress(tracker: SobrietyTracker, timezone: string, now: number = Date.now()): string {
+    const status = getSobrietyStatus(tracker, timezone, now);
+    const formatDate = (date: number) => new Date(date).toLocaleDateString('ru-RU', { timeZone: timezone });
+    const nextMilestone = SOBRIETY_MILESTONES.find((milestone) => milestone > status.streakDays)
+      || (Math.floor(status.streakDays / 365) + 1) * 365;
+    const lastRelapse = tracker.relapses[tracker.relapses.length - 1];
+
+    const lines = [
+      '📊 **Твой прогресс**',
+      '',
+      `🌿 Трезвость: ${formatDays(status.streakDays)} (с ${formatDate(tracker.startDate)})`,
+      `🏆 Лучшая серия: ${formatDays(status.bestStreakDays)}`,
+      `🎯 Следующая веха: ${formatDays(nextMilestone)} — осталось ${formatDays(nextMilestone - status.streakDays)}`,
+      `✅ Отметок: ${tracker.checkInCount}`,
+      `🔁 Срывов: ${status.relapseCount}`,
+    ];
+
+    if (lastRelapse) {
+      const note = lastRelapse.note ? ` — «${lastRelapse.note}»` : '';
+      lines.push(`Последний срыв: ${formatDate(lastRelapse.date)}${note}`);
+    }
+
+    return lines.join('\n');
+  }
+}
+
+export const sobrietyService = new SobrietyService();
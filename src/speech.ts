@@ -0,0 +1,130 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { config } from './config';
+import { geminiService } from './gemini';
+import { logger } from './utils/logger';
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+  // userId is who the transcription is billed to, for providers that meter usage
+  transcribe(audio: Buffer, mimeType: string, userId?: number): Promise<string>;
+}
+
+export interface TextToSpeechProvider {
+  readonly name: string;
+  // Returns OGG/Opus audio, the only format Telegram shows as a voice note
+  synthesize(text: string): Promise<Buffer>;
+}
+
+// Runs a shell command, feeding `input` to stdin and resolving with stdout
+function runCommand(command: string, input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('sh', ['-c', command]);
+    let stdout = '';
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`Command timed out after ${config.voice.commandTimeoutMs}ms`));
+    }, config.voice.commandTimeoutMs);
+
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`Command exited with code ${code}: ${stderr.trim().slice(0, 500)}`));
+      }
+    });
+
+    child.stdin.end(input ?? '');
+  });
+}
+
+async function withTempDir<T>(task: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mehelp-voice-'));
+  try {
+    return await task(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+class GeminiSpeechToText implements SpeechToTextProvider {
+  readonly name = 'gemini';
+
+  transcribe(audio: Buffer, mimeType: string, userId?: number): Promise<string> {
+    return geminiService.transcribeAudio(audio, mimeType, userId);
+  }
+}
+
+/**
+ * Local engine (e.g. whisper.cpp) invoked through a shell command. `{input}`
+ * is replaced with the path of the downloaded OGG file; the transcript is
+ * read from stdout.
+ */
+class CommandSpeechToText implements SpeechToTextProvider {
+  readonly name = 'command';
+
+  constructor(private command: string) {}
+
+  transcribe(audio: Buffer): Promise<string> {
+    return withTempDir(async (dir) => {
+      const input = path.join(dir, 'input.ogg');
+      await fs.writeFile(input, audio);
+      const output = await runCommand(this.command.replace(/\{input\}/g, quote(input)));
+      return output.trim();
+    });
+  }
+}
+
+/**
+ * Local TTS (e.g. piper piped into ffmpeg) invoked through a shell command.
+ * The text arrives on stdin and the command must write OGG/Opus to `{output}`.
+ */
+class CommandTextToSpeech implements TextToSpeechProvider {
+  readonly name = 'command';
+
+  constructor(private command: string) {}
+
+  synthesize(text: string): Promise<Buffer> {
+    return withTempDir(async (dir) => {
+      const output = path.join(dir, 'output.ogg');
+      await runCommand(this.command.replace(/\{output\}/g, quote(output)), text);
+      return fs.readFile(output);
+    });
+  }
+}
+
+const createSpeechToText = (): SpeechToTextProvider | null => {
+  if (!config.bot.enableVoiceRecognition) return null;
+
+  if (config.voice.sttProvider === 'command') {
+    if (!config.voice.sttCommand) {
+      logger.warn('STT_COMMAND is not set, voice recognition disabled');
+      return null;
+    }
+    return new CommandSpeechToText(config.voice.sttCommand);
+  }
+  return new GeminiSpeechToText();
+};
+
+const createTextToSpeech = (): TextToSpeechProvider | null => {
+  if (config.voice.ttsProvider === 'command' && config.voice.ttsCommand) {
+    return new CommandTextToSpeech(config.voice.ttsCommand);
+  }
+  return null;
+};
+
+export const speechToText = createSpeechToText();
+export const textToSpeech = createTextToSpeech();
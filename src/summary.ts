@@ -0,0 +1,81 @@
+import { config } from './config';
+import { geminiService } from './gemini';
+import { contextManager } from './utils/context';
+import { logger } from './utils/logger';
+import { estimateHistoryTokens, estimateMessageTokens } from './utils/tokens';
+
+class SummaryService {
+  private inFlight = new Set<string>();
+
+  // Fire-and-forget after a reply; compaction only runs once the history outgrows the token budget
+  scheduleCompaction(sessionKey: string): void {
+    if (!config.summary.enabled || this.inFlight.has(sessionKey)) return;
+
+    this.compact(sessionKey).catch((error) => {
+      logger.error('Background history compaction failed', { sessionKey, error: (error as Error).message });
+    });
+  }
+
+  // Folds the oldest turns into the running summary; returns the number of messages folded
+  async compact(sessionKey: string): Promise<number> {
+    const session = await contextManager.getSession(sessionKey);
+    if (!session) return 0;
+
+    const messages = session.history.filter((message) => message.role !== 'system');
+    const budget = config.gemini.maxTokens;
+    if (estimateHistoryTokens(messages) <= budget) return 0;
+
+    // Keep the newest turns within half the budget so compaction does not rerun on every message
+    let keepFrom = messages.length;
+    let keptTokens = 0;
+    while (keepFrom > 0) {
+      const tokens = estimateMessageTokens(messages[keepFrom - 1]);
+      const keptCount = messages.length - keepFrom;
+      if (keptCount >= config.summary.minRecentMessages && keptTokens + tokens > budget / 2) break;
+      keptTokens += tokens;
+      keepFrom--;
+    }
+
+    const folded = messages.slice(0, keepFrom);
+    if (folded.length === 0) return 0;
+
+    this.inFlight.add(sessionKey);
+    try {
+      const text = await geminiService.summarizeConversation(session.summary?.text, folded, session.userId);
+      if (!text) return 0;
+
+      let applied = false;
+      await contextManager.updateSession(sessionKey, (current) => {
+        const systemMessage = current.history.find((message) => message.role === 'system');
+        const currentMessages = current.history.filter((message) => message.role !== 'system');
+
+        // History was reset or compacted meanwhile; the summary no longer matches it
+        const first = currentMessages[0];
+        if (!first || first.timestamp !== folded[0].timestamp || first.content !== folded[0].content) return;
+
+        const recentMessages = currentMessages.slice(folded.length);
+        current.history = systemMessage ? [systemMessage, ...recentMessages] : recentMessages;
+        current.summary = {
+          text,
+          messageCount: (current.summary?.messageCount || 0) + folded.length,
+          updatedAt: Date.now(),
+        };
+        applied = true;
+      });
+
+      if (!applied) return 0;
+
+      logger.info('Conversation history compacted', {
+        sessionKey,
+        folded: folded.length,
+        kept: messages.length - folded.length,
+        summaryLength: text.length,
+      });
+      return folded.length;
+    } finally {
+      this.inFlight.delete(sessionKey);
+    }
+  }
+}
+
+export const summaryService = new SummaryService();
@@ -0,0 +1,112 @@
+import { config } from './config';
+import { contextManager, ModelUsage, UsageRecord } from './utils/context';
+import { logger } from './utils/logger';
+import { KeyedQueue } from './utils/rateLimit';
+import { getLocalTime } from './utils/time';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_USERS = 10;
+
+// Usage is kept per user across all their chats, so budgets and the report share one
+// calendar: the configured default timezone, not the server's
+const toDateKey = (date: number): string => getLocalTime(config.scheduler.defaultTimezone, date).date;
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+}
+
+// USD; undefined for models without a configured price
+export function estimateCost(model: string, usage: Pick<ModelUsage, 'promptTokens' | 'responseTokens'>): number | undefined {
+  const price = config.usage.pricing[model];
+  if (!price) return undefined;
+  return (usage.promptTokens * price.input + usage.responseTokens * price.output) / 1_000_000;
+}
+
+const totalTokens = (record: UsageRecord): number =>
+  Object.values(record.models).reduce((sum, usage) => sum + usage.promptTokens + usage.responseTokens, 0);
+
+const formatCost = (cost: number): string => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+class UsageService {
+  // Read-modify-write per user, so parallel calls never overwrite each other's counts
+  private writes = new KeyedQueue();
+
+  // Runs in the background; a failed write costs a statistic, never a reply
+  record(userId: number, model: string, usage: TokenUsage): void {
+    this.writes.run(userId, async () => {
+      const date = toDateKey(Date.now());
+      const record = await contextManager.getUsage(userId, date) || { userId, date, models: {} };
+      const current = record.models[model] || { requests: 0, promptTokens: 0, responseTokens: 0 };
+      record.models[model] = {
+        requests: current.requests + 1,
+        promptTokens: current.promptTokens + usage.promptTokens,
+        responseTokens: current.responseTokens + usage.responseTokens,
+      };
+      await contextManager.saveUsage(record);
+    }).catch((error) => {
+      logger.error('Failed to record token usage', { userId, model, error: (error as Error).message });
+    });
+  }
+
+  async getTodayTokens(userId: number): Promise<number> {
+    const record = await contextManager.getUsage(userId, toDateKey(Date.now()));
+    return record ? totalTokens(record) : 0;
+  }
+
+  async isOverBudget(userId: number): Promise<boolean> {
+    if (config.usage.dailyTokenBudget <= 0) return false;
+    return (await this.getTodayTokens(userId)) >= config.usage.dailyTokenBudget;
+  }
+
+  // Totals by model and the heaviest users over the last `days` days, today included
+  async formatReport(days: number): Promise<string> {
+    const since = toDateKey(Date.now() - (days - 1) * DAY_MS);
+    const records = await contextManager.listUsage(since);
+    if (records.length === 0) {
+      return `За ${days} дн. запросов к Gemini не было.`;
+    }
+
+    const byModel = new Map<string, ModelUsage>();
+    const byUser = new Map<number, { tokens: number; cost: number }>();
+    for (const record of records) {
+      const user = byUser.get(record.userId) || { tokens: 0, cost: 0 };
+      for (const [model, usage] of Object.entries(record.models)) {
+        const total = byModel.get(model) || { requests: 0, promptTokens: 0, responseTokens: 0 };
+        byModel.set(model, {
+          requests: total.requests + usage.requests,
+          promptTokens: total.promptTokens + usage.promptTokens,
+          responseTokens: total.responseTokens + usage.responseTokens,
+        });
+        user.tokens += usage.promptTokens + usage.responseTokens;
+        user.cost += estimateCost(model, usage) || 0;
+      }
+      byUser.set(record.userId, user);
+    }
+
+    let totalCost = 0;
+    const modelLines = [...byModel.entries()].map(([model, usage]) => {
+      const cost = estimateCost(model, usage);
+      totalCost += cost || 0;
+      return `• ${model}: ${usage.requests} запр., ${usage.promptTokens} вход / ${usage.responseTokens} выход — ${cost === undefined ? 'цена не задана' : formatCost(cost)}`;
+    });
+
+    const userLines = [...byUser.entries()]
+      .sort((a, b) => b[1].tokens - a[1].tokens)
+      .slice(0, TOP_USERS)
+      .map(([userId, user]) => `• ${userId === 0 ? 'общие чаты групп' : userId}: ${user.tokens} токенов, ${formatCost(user.cost)}`);
+
+    return [
+      `💰 Расход Gemini за ${days} дн. (с ${since}): ≈ ${formatCost(totalCost)}`,
+      '',
+      'По моделям:',
+      ...modelLines,
+      '',
+      'Больше всего токенов:',
+      ...userLines,
+    ].join('\n');
+  }
+}
+
+export const usageService = new UsageService();
@@ -0,0 +1,154 @@
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+// Room left for the "(2/3) " part number prefix
+const PART_PREFIX_RESERVE = 16;
+
+const CODE_FENCE = /```[\s\S]*?```/g;
+
+interface Block {
+  text: string;
+  isCode: boolean;
+}
+
+// Splits text into paragraphs while keeping every fenced code block whole
+function toBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let lastIndex = 0;
+
+  const pushProse = (prose: string) => {
+    for (const paragraph of prose.split(/\n{2,}/)) {
+      if (paragraph.trim()) {
+        blocks.push({ text: paragraph.trim(), isCode: false });
+      }
+    }
+  };
+
+  for (const match of text.matchAll(CODE_FENCE)) {
+    pushProse(text.slice(lastIndex, match.index));
+    blocks.push({ text: match[0], isCode: true });
+    lastIndex = match.index! + match[0].length;
+  }
+  pushProse(text.slice(lastIndex));
+
+  return blocks;
+}
+
+// A cut is safe when no inline entity (*bold*, _italic_, `code`, [link](url)) is left open before it
+function isSafeCut(text: string, index: number): boolean {
+  const prefix = text.slice(0, index);
+  const count = (marker: string) => prefix.split(marker).length - 1;
+
+  if (count('*') % 2 !== 0 || count('_') % 2 !== 0 || count('`') % 2 !== 0) {
+    return false;
+  }
+
+  return count('[') === count(']') && count('(') <= count(')');
+}
+
+function lastMatchEnd(text: string, pattern: RegExp, limit: number, safeOnly: boolean): number {
+  let best = -1;
+  for (const match of text.matchAll(pattern)) {
+    const cut = match.index! + match[0].length;
+    if (cut > limit) break;
+    if (!safeOnly || isSafeCut(text, cut)) best = cut;
+  }
+  return best;
+}
+
+// Splits an oversized paragraph on sentence ends, then on spaces, never inside an entity
+function splitProse(text: string, limit: number): string[] {
+  const parts: string[] = [];
+  let rest = text;
+
+  while (rest.length > limit) {
+    let cut = lastMatchEnd(rest, /[.!?…]+\s+/g, limit, true);
+    if (cut <= 0) cut = lastMatchEnd(rest, /\s+/g, limit, true);
+    // Stray markers (snake_case, unpaired asterisks) can make every cut look unsafe
+    if (cut <= 0) cut = lastMatchEnd(rest, /\s+/g, limit, false);
+    if (cut <= 0) cut = limit;
+
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) parts.push(rest);
+
+  return parts;
+}
+
+// Splits an oversized code block on line breaks and re-opens the fence in every piece
+function splitCode(block: string, limit: number): string[] {
+  const header = block.slice(0, block.indexOf('\n') + 1) || '```\n';
+  const body = block.slice(header.length, block.lastIndexOf('```')).replace(/\n$/, '');
+  const footer = '\n```';
+  const room = limit - header.length - footer.length;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const line of body.split('\n')) {
+    // Lines longer than a whole message have to be cut anyway
+    for (let start = 0; start < Math.max(line.length, 1); start += room) {
+      const piece = line.slice(start, start + room);
+      if (current && current.length + piece.length + 1 > room) {
+        parts.push(header + current + footer);
+        current = '';
+      }
+      current = current ? `${current}\n${piece}` : piece;
+    }
+  }
+  if (current) parts.push(header + current + footer);
+
+  return parts;
+}
+
+/**
+ * Splits a reply into Telegram-sized chunks on paragraph and sentence
+ * boundaries. Code blocks and inline Markdown entities are never broken.
+ */
+export function splitMessage(text: string, limit: number = TELEGRAM_MESSAGE_LIMIT): string[] {
+  const room = limit - PART_PREFIX_RESERVE;
+  if (text.length <= room) {
+    return [text];
+  }
+
+  const pieces: string[] = [];
+  for (const block of toBlocks(text)) {
+    if (block.text.length <= room) {
+      pieces.push(block.text);
+    } else if (block.isCode) {
+      pieces.push(...splitCode(block.text, room));
+    } else {
+      pieces.push(...splitProse(block.text, room));
+    }
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > room) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+export function numberChunks(chunks: string[]): string[] {
+  if (chunks.length < 2) return chunks;
+  return chunks.map((chunk, i) => `(${i + 1}/${chunks.length}) ${chunk}`);
+}
+
+/**
+ * Cuts a reply down to maxLength on a safe boundary. The remainder is what
+ * a "continue" request should show next.
+ */
+export function truncateResponse(text: string, maxLength: number): { text: string; remainder: string } {
+  if (maxLength <= 0 || text.length <= maxLength) {
+    return { text, remainder: '' };
+  }
+
+  const [head, ...rest] = splitMessage(text, maxLength + PART_PREFIX_RESERVE);
+  return { text: head, remainder: rest.join('\n\n') };
+}
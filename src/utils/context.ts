@@ -1,34 +1,230 @@
 import fs from 'fs/promises';
+import TelegramBot from 'node-telegram-bot-api';
 import path from 'path';
 import { config } from '../config';
-import { logger } from './logger';
+import { logger, redactText } from './logger';
+import { isEncryptedValue } from './encryption';
+import { StorageBackend, createStorage, listDatabaseCopies, migrateJsonDatabase, removeDatabaseCopies } from './storage';
+import { trimHistoryToBudget } from './tokens';
 
 export interface ChatMessage {
+  // Set on assistant replies so 👍/👎 ratings can point back to them
+  id?: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
   messageType?: 'text' | 'image' | 'voice';
+  // Set on image messages; the description stands in for the image in later turns
+  image?: ImageReference;
+  // Set on user messages in shared group sessions so the model knows who is speaking
+  authorId?: number;
+  authorName?: string;
+  // Assistant replies: what produced them, and the reply they replaced after a 👎
+  model?: string;
+  // `<profile>@<hash>` of the prompt in effect
+  promptVersion?: string;
+  regeneratedFrom?: string;
+}
+
+export interface ImageReference {
+  fileId: string;
+  mimeType: string;
+  description?: string;
+}
+
+export type GroupMode = 'shared' | 'individual';
+export type GroupReplyMode = 'mention' | 'always';
+
+export interface GroupSettings {
+  chatId: number;
+  mode: GroupMode;
+  replyMode: GroupReplyMode;
+  // Prompt profile for the chat; unset means the default one
+  promptProfile?: string;
+  updatedAt: number;
+}
+
+export type MemoryItemKind = 'fact' | 'interest' | 'goal' | 'preference';
+
+export interface MemoryItem {
+  id: string;
+  kind: MemoryItemKind;
+  text: string;
+  status: 'active' | 'achieved';
+  source: 'auto' | 'user';
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ConversationSummary {
+  text: string;
+  // Number of messages folded into the summary so far
+  messageCount: number;
+  updatedAt: number;
+}
+
+export interface RelapseRecord {
+  date: number;
+  // Length of the streak the relapse ended
+  streakDays: number;
+  note?: string;
+}
+
+export interface SobrietyTracker {
+  // Start of the current streak
+  startDate: number;
+  bestStreakDays: number;
+  relapses: RelapseRecord[];
+  checkInCount: number;
+  // YYYY-MM-DD of the last daily check-in
+  lastCheckInDate?: string;
+  // Highest milestone already celebrated in the current streak
+  celebratedMilestone: number;
+}
+
+export interface MoodEntry {
+  id: string;
+  date: number;
+  // 1–10; missing on free-text and auto-tagged entries
+  rating?: number;
+  emotion?: string;
+  text?: string;
+  // rating and entry come from the user, auto from emotion tagging of their messages
+  source: 'rating' | 'entry' | 'auto';
+}
+
+export type ReminderKind = 'mood' | 'medication' | 'sleep' | 'custom';
+
+export interface Reminder {
+  id: string;
+  kind: ReminderKind;
+  // HH:MM in the user's timezone
+  time: string;
+  repeat: 'daily' | 'once';
+  // YYYY-MM-DD in the user's timezone; only for one-off reminders
+  date?: string;
+  text?: string;
+  // YYYY-MM-DD (user's timezone) of the last delivery, so restarts never send twice
+  lastSentDate?: string;
+  // Fell due during quiet hours; goes out once they end
+  deferred?: boolean;
+  createdAt: number;
+}
+
+export interface UserSchedule {
+  // IANA name, e.g. Europe/Moscow
+  timezone: string;
+  // HH:MM range, may wrap past midnight; null turns quiet hours off
+  quietHours: { start: string; end: string } | null;
+  reminders: Reminder[];
+}
+
+export interface UserSettings {
+  voiceReplies?: boolean;
+  // Assigned by an admin; takes precedence over the chat's profile
+  promptProfile?: string;
+  // Id from the persona catalogue, or sanitized free text from /persona <роль>; at most one is set
+  persona?: string;
+  customPersona?: string;
 }
 
 export interface UserSession {
+  // `${chatId}:${userId}` for personal sessions, `${chatId}` for a shared group session
+  sessionKey: string;
   chatId: number;
+  // 0 for shared group sessions
   userId: number;
   username?: string;
   firstName?: string;
   lastName?: string;
   history: ChatMessage[];
+  // Running summary of the messages dropped from history
+  summary?: ConversationSummary;
   userMemory: {
     interests: string[];
-    preferences: Record<string, any>;
+    preferences: Record<string, unknown>;
     goals: string[];
     communicationStyle: string;
+    // Learned from conversations, or added and corrected by the user via /memory
+    items?: MemoryItem[];
   };
+  // Timestamp of the last history message already mined for memory
+  memoryExtractedAt?: number;
+  settings?: UserSettings;
+  sobriety?: SobrietyTracker;
+  schedule?: UserSchedule;
+  moodJournal?: MoodEntry[];
+  // Rest of a reply cut by maxResponseLength, shown on "continue"
+  pendingContinuation?: string;
   createdAt: number;
   lastActivity: number;
 }
 
+export interface FeedbackRecord {
+  // Id of the rated assistant ChatMessage; one rating per reply, the latest wins
+  messageId: string;
+  sessionKey: string;
+  userId: number;
+  rating: 'like' | 'dislike';
+  reason?: string;
+  prompt: string;
+  response: string;
+  model?: string;
+  promptVersion?: string;
+  regeneratedFrom?: string;
+  ratedAt: number;
+}
+
+export interface BanRecord {
+  userId: number;
+  // Admin who issued the ban
+  bannedBy: number;
+  reason?: string;
+  bannedAt: number;
+}
+
+export interface ModelUsage {
+  requests: number;
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface UsageRecord {
+  // 0 for calls made on behalf of a shared group session
+  userId: number;
+  // YYYY-MM-DD, server time
+  date: string;
+  // Keyed by model name
+  models: Record<string, ModelUsage>;
+}
+
+// Audit entry for a /forget; holds counts only, never the erased content
+export interface DeletionRecord {
+  id: string;
+  userId: number;
+  erasedAt: number;
+  sessions: number;
+  // Messages removed from shared group sessions
+  groupMessages: number;
+  feedback: number;
+  usage: number;
+  logEntries: number;
+  // Whole-database copies that may still hold the user; an operator prunes them with /admin backups
+  backups?: number;
+}
+
 export interface DatabaseSchema {
-  users: Record<number, UserSession>;
+  // Keyed by sessionKey
+  users: Record<string, UserSession>;
+  groups: Record<number, GroupSettings>;
+  // Keyed by messageId
+  feedback: Record<string, FeedbackRecord>;
+  // Keyed by userId
+  bans: Record<number, BanRecord>;
+  // Keyed by `${userId}:${date}`
+  usage: Record<string, UsageRecord>;
+  // Keyed by id
+  deletions: Record<string, DeletionRecord>;
   statistics: {
     totalUsers: number;
     totalMessages: number;
@@ -36,61 +232,110 @@ export interface DatabaseSchema {
   };
 }
 
+export const isGroupChat = (chatType?: string): boolean =>
+  chatType === 'group' || chatType === 'supergroup';
+
+export const getSessionKey = (chatId: number, userId?: number): string =>
+  userId === undefined ? `${chatId}` : `${chatId}:${userId}`;
+
 class ContextManager {
-  private dbPath: string;
-  private data: DatabaseSchema | null = null;
+  private storage: StorageBackend;
   private isInitialized = false;
 
-  constructor() {
-    this.dbPath = path.join(process.cwd(), 'data', 'db.json');
+  constructor(storage: StorageBackend = createStorage()) {
+    this.storage = storage;
   }
 
   async initialize(): Promise<void> {
     try {
-      // Ensure data directory exists
-      await fs.mkdir(path.dirname(this.dbPath), { recursive: true });
+      await this.storage.initialize();
+
+      // Carry existing users over when switching away from the JSON file
+      if (this.storage.name !== 'json') {
+        const jsonPath = path.resolve(process.cwd(), config.storage.jsonPath);
+        await migrateJsonDatabase(jsonPath, this.storage);
+        // Older versions kept the migrated file; it is a full plaintext copy
+        await fs.rm(`${jsonPath}.migrated`, { force: true });
+      }
       
-      // Try to read existing database
-      try {
-        const fileContent = await fs.readFile(this.dbPath, 'utf-8');
-        this.data = JSON.parse(fileContent);
-      } catch (error) {
-        // File doesn't exist or is corrupted, create new database
-        this.data = {
-          users: {},
-          statistics: {
-            totalUsers: 0,
-            totalMessages: 0,
-            lastReset: Date.now(),
-          },
-        };
-        await this.save();
+      // Without a key an encrypted database would feed ciphertext to the model and mix in new plaintext
+      const { encryptionKey, previousEncryptionKeys } = config.storage;
+      if (!encryptionKey && previousEncryptionKeys.length === 0) {
+        const sessions = await this.storage.listSessions();
+        if (sessions.some((session) => session.history.some((message) => isEncryptedValue(message.content)))) {
+          throw new Error('Database is encrypted but DATA_ENCRYPTION_KEY is not set');
+        }
       }
       
       this.isInitialized = true;
-      logger.info('Context manager initialized');
+      logger.info('Context manager initialized', { storage: this.storage.name });
     } catch (error) {
       logger.error('Failed to initialize context manager', { error });
       throw error;
     }
   }
 
+  async close(): Promise<void> {
+    if (!this.isInitialized) return;
+    await this.storage.close();
+    this.isInitialized = false;
+  }
+
   private ensureInitialized(): void {
-    if (!this.isInitialized || !this.data) {
+    if (!this.isInitialized) {
       throw new Error('Context manager not initialized');
     }
   }
 
-  async getUserSession(chatId: number, userId: number, userInfo?: any): Promise<UserSession> {
+  async getGroupSettings(chatId: number): Promise<GroupSettings> {
     this.ensureInitialized();
 
-    if (!this.data!.users[userId]) {
+    const stored = await this.storage.getGroupSettings(chatId);
+    return stored || {
+      chatId,
+      mode: config.bot.groupMode,
+      replyMode: config.bot.groupReplyMode,
+      updatedAt: Date.now(),
+    };
+  }
+
+  async updateGroupSettings(
+    chatId: number,
+    settings: Partial<Pick<GroupSettings, 'mode' | 'replyMode' | 'promptProfile'>>
+  ): Promise<GroupSettings> {
+    const current = await this.getGroupSettings(chatId);
+    const updated: GroupSettings = { ...current, ...settings, updatedAt: Date.now() };
+    await this.storage.saveGroupSettings(updated);
+
+    logger.info('Group settings updated', { chatId, settings });
+    return updated;
+  }
+
+  async resolveSessionKey(chatId: number, userId: number, chatType?: string): Promise<string> {
+    if (isGroupChat(chatType)) {
+      const settings = await this.getGroupSettings(chatId);
+      if (settings.mode === 'shared') {
+        return getSessionKey(chatId);
+      }
+    }
+    return getSessionKey(chatId, userId);
+  }
+
+  async getUserSession(chatId: number, userId: number, userInfo?: TelegramBot.User, chatType?: string): Promise<UserSession> {
+    this.ensureInitialized();
+
+    const sessionKey = await this.resolveSessionKey(chatId, userId, chatType);
+    const isShared = sessionKey === getSessionKey(chatId);
+
+    const existing = await this.storage.getSession(sessionKey);
+    if (!existing) {
       const newSession: UserSession = {
+        sessionKey,
         chatId,
-        userId,
-        username: userInfo?.username,
-        firstName: userInfo?.first_name,
-        lastName: userInfo?.last_name,
+        userId: isShared ? 0 : userId,
+        username: isShared ? undefined : userInfo?.username,
+        firstName: isShared ? undefined : userInfo?.first_name,
+        lastName: isShared ? undefined : userInfo?.last_name,
         history: [
           {
             role: 'system',
@@ -112,24 +357,23 @@ class ContextManager {
         lastActivity: Date.now(),
       };
 
-      this.data!.users[userId] = newSession;
-      this.data!.statistics.totalUsers++;
-      await this.save();
+      await this.storage.saveSession(newSession, { totalUsers: 1 });
       
-      logger.info('New user session created', { userId, chatId });
-    } else {
-      // Update last activity
-      this.data!.users[userId].lastActivity = Date.now();
-      await this.save();
+      logger.info('New user session created', { sessionKey, userId, chatId });
+      return newSession;
     }
 
-    return this.data!.users[userId];
+    // Update last activity
+    existing.lastActivity = Date.now();
+    await this.storage.saveSession(existing);
+
+    return existing;
   }
 
-  async addMessage(userId: number, message: ChatMessage): Promise<void> {
+  async addMessage(sessionKey: string, message: ChatMessage): Promise<void> {
     this.ensureInitialized();
 
-    const user = this.data!.users[userId];
+    const user = await this.storage.getSession(sessionKey);
     if (!user) {
       throw new Error('User session not found');
     }
@@ -137,29 +381,25 @@ class ContextManager {
     user.history.push(message);
     user.lastActivity = Date.now();
 
-    // Auto-trim history if it exceeds max length
-    if (user.history.length > config.bot.maxHistoryLength) {
-      const systemMessage = user.history.find((msg: ChatMessage) => msg.role === 'system');
-      const recentMessages = user.history.slice(-config.bot.maxHistoryLength + 1);
-      
-      user.history = systemMessage ? [systemMessage, ...recentMessages] : recentMessages;
-    }
+    // Older turns are normally folded into the summary; this hard cap only kicks in
+    // when summarization is disabled or keeps failing
+    const budget = config.summary.enabled ? config.gemini.maxTokens * 3 : config.gemini.maxTokens;
+    user.history = trimHistoryToBudget(user.history, budget);
 
-    this.data!.statistics.totalMessages++;
-    await this.save();
+    await this.storage.saveSession(user, { totalMessages: 1 });
   }
 
-  async getHistory(userId: number): Promise<ChatMessage[]> {
+  async getHistory(sessionKey: string): Promise<ChatMessage[]> {
     this.ensureInitialized();
 
-    const user = this.data!.users[userId];
+    const user = await this.storage.getSession(sessionKey);
     return user ? user.history : [];
   }
 
-  async clearHistory(userId: number): Promise<void> {
+  async clearHistory(sessionKey: string): Promise<void> {
     this.ensureInitialized();
 
-    const user = this.data!.users[userId];
+    const user = await this.storage.getSession(sessionKey);
     if (user) {
       user.history = [
         {
@@ -168,61 +408,207 @@ class ContextManager {
           timestamp: Date.now(),
         },
       ];
-      await this.save();
+      user.summary = undefined;
+      await this.storage.saveSession(user);
       
-      logger.info('History cleared for user', { userId });
+      logger.info('History cleared for user', { sessionKey });
     }
   }
 
-  async updateUserMemory(userId: number, memory: Partial<UserSession['userMemory']>): Promise<void> {
+  async updateUserMemory(sessionKey: string, memory: Partial<UserSession['userMemory']>): Promise<void> {
     this.ensureInitialized();
 
-    const user = this.data!.users[userId];
+    const user = await this.storage.getSession(sessionKey);
     if (user) {
       user.userMemory = { ...user.userMemory, ...memory };
-      await this.save();
+      await this.storage.saveSession(user);
       
-      logger.info('User memory updated', { userId, memory });
+      logger.info('User memory updated', { sessionKey, fields: Object.keys(memory) });
     }
   }
 
-  async getUserMemory(userId: number): Promise<UserSession['userMemory'] | null> {
+  async getUserMemory(sessionKey: string): Promise<UserSession['userMemory'] | null> {
     this.ensureInitialized();
 
-    const user = this.data!.users[userId];
+    const user = await this.storage.getSession(sessionKey);
     return user ? user.userMemory : null;
   }
 
-  async getStatistics(): Promise<DatabaseSchema['statistics']> {
+  // Applies an arbitrary change to a session and persists it
+  async updateSession(sessionKey: string, update: (session: UserSession) => void): Promise<UserSession | null> {
     this.ensureInitialized();
 
-    return this.data!.statistics;
+    const user = await this.storage.getSession(sessionKey);
+    if (!user) return null;
+
+    update(user);
+    await this.storage.saveSession(user);
+    return user;
   }
 
-  async cleanupInactiveUsers(daysInactive: number = 30): Promise<void> {
+  async getSession(sessionKey: string): Promise<UserSession | null> {
     this.ensureInitialized();
 
-    const cutoffTime = Date.now() - (daysInactive * 24 * 60 * 60 * 1000);
-    const inactiveUserIds = Object.entries(this.data!.users)
-      .filter(([_, user]) => user.lastActivity < cutoffTime)
-      .map(([userId, _]) => parseInt(userId));
+    return this.storage.getSession(sessionKey);
+  }
 
-    for (const userId of inactiveUserIds) {
-      delete this.data!.users[userId];
+  async updateSettings(sessionKey: string, settings: Partial<UserSettings>): Promise<void> {
+    this.ensureInitialized();
+
+    const user = await this.storage.getSession(sessionKey);
+    if (user) {
+      user.settings = { ...user.settings, ...settings };
+      await this.storage.saveSession(user);
+      
+      logger.info('User settings updated', {
+        sessionKey,
+        settings: { ...settings, ...(settings.customPersona && { customPersona: redactText(settings.customPersona) }) },
+      });
     }
+  }
+
+  // Stores the new continuation and returns the one it replaced
+  async setPendingContinuation(sessionKey: string, text: string | undefined): Promise<string | undefined> {
+    this.ensureInitialized();
+
+    const user = await this.storage.getSession(sessionKey);
+    if (!user) return undefined;
+
+    const previous = user.pendingContinuation;
+    if (previous === text) return previous;
+
+    user.pendingContinuation = text;
+    await this.storage.saveSession(user);
+    return previous;
+  }
+
+  async getStatistics(): Promise<DatabaseSchema['statistics']> {
+    this.ensureInitialized();
+
+    return this.storage.getStatistics();
+  }
+
+  async listSessions(): Promise<UserSession[]> {
+    this.ensureInitialized();
+
+    return this.storage.listSessions();
+  }
+
+  async getFeedback(messageId: string): Promise<FeedbackRecord | null> {
+    this.ensureInitialized();
+
+    return this.storage.getFeedback(messageId);
+  }
+
+  async saveFeedback(record: FeedbackRecord): Promise<void> {
+    this.ensureInitialized();
+
+    await this.storage.saveFeedback(record);
+  }
+
+  async listFeedback(): Promise<FeedbackRecord[]> {
+    this.ensureInitialized();
+
+    return this.storage.listFeedback();
+  }
 
-    if (inactiveUserIds.length > 0) {
-      await this.save();
-      logger.info('Cleaned up inactive users', { count: inactiveUserIds.length });
+  async deleteFeedback(messageIds: string[]): Promise<void> {
+    this.ensureInitialized();
+
+    await this.storage.deleteFeedback(messageIds);
+  }
+
+  async getBan(userId: number): Promise<BanRecord | null> {
+    this.ensureInitialized();
+
+    return this.storage.getBan(userId);
+  }
+
+  async saveBan(record: BanRecord): Promise<void> {
+    this.ensureInitialized();
+
+    await this.storage.saveBan(record);
+  }
+
+  async deleteBan(userId: number): Promise<void> {
+    this.ensureInitialized();
+
+    await this.storage.deleteBan(userId);
+  }
+
+  async listBans(): Promise<BanRecord[]> {
+    this.ensureInitialized();
+
+    return this.storage.listBans();
+  }
+
+  async getUsage(userId: number, date: string): Promise<UsageRecord | null> {
+    this.ensureInitialized();
+
+    return this.storage.getUsage(userId, date);
+  }
+
+  async saveUsage(record: UsageRecord): Promise<void> {
+    this.ensureInitialized();
+
+    await this.storage.saveUsage(record);
+  }
+
+  async listUsage(sinceDate: string): Promise<UsageRecord[]> {
+    this.ensureInitialized();
+
+    return this.storage.listUsage(sinceDate);
+  }
+
+  async deleteUsage(userId: number): Promise<void> {
+    this.ensureInitialized();
+
+    await this.storage.deleteUsage(userId);
+  }
+
+  async deleteSessions(sessionKeys: string[]): Promise<void> {
+    this.ensureInitialized();
+
+    await this.storage.deleteSessions(sessionKeys);
+  }
+
+  async saveDeletion(record: DeletionRecord): Promise<void> {
+    this.ensureInitialized();
+
+    await this.storage.saveDeletion(record);
+  }
+
+  async listDeletions(): Promise<DeletionRecord[]> {
+    this.ensureInitialized();
+
+    return this.storage.listDeletions();
+  }
+
+  // Backups of a corrupted db.json and a db.json.migrated left by older versions
+  async listDatabaseCopies(): Promise<string[]> {
+    return listDatabaseCopies(path.resolve(process.cwd(), config.storage.jsonPath));
+  }
+
+  async removeDatabaseCopies(): Promise<number> {
+    const copies = await removeDatabaseCopies(path.resolve(process.cwd(), config.storage.jsonPath));
+    if (copies.length > 0) {
+      logger.warn('Removed database copies', { copies });
     }
+    return copies.length;
   }
 
-  private async save(): Promise<void> {
-    try {
-      await fs.writeFile(this.dbPath, JSON.stringify(this.data, null, 2));
-    } catch (error) {
-      logger.error('Failed to save database', { error });
-      throw error;
+  async cleanupInactiveUsers(daysInactive: number = 30): Promise<void> {
+    this.ensureInitialized();
+
+    const cutoffTime = Date.now() - (daysInactive * 24 * 60 * 60 * 1000);
+    // Users with reminders asked to be contacted, so silence alone does not count as inactivity
+    const inactiveSessionKeys = (await this.storage.listSessions())
+      .filter((user) => user.lastActivity < cutoffTime && !user.schedule?.reminders.length)
+      .map((user) => user.sessionKey);
+
+    if (inactiveSessionKeys.length > 0) {
+      await this.storage.deleteSessions(inactiveSessionKeys);
+      logger.info('Cleaned up inactive users', { count: inactiveSessionKeys.length });
     }
   }
 }
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+
+const PREFIX = 'enc:v1:';
+
+export const isEncryptedValue = (value: string): boolean => value.startsWith(PREFIX);
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+export interface EncryptionKey {
+  // Derived from the key itself, so ciphertext names the key that opens it without storing anything secret
+  id: string;
+  key: Buffer;
+}
+
+// 32 bytes, as 64 hex characters or base64
+export function parseEncryptionKey(input: string): EncryptionKey | null {
+  const trimmed = input.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== 32) return null;
+  return { id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+/**
+ * Encrypts single string fields as `enc:v1:<key id>:<iv>:<tag>:<ciphertext>`.
+ * Plaintext passes through decrypt() untouched, so databases written before
+ * encryption was switched on stay readable until they are resealed.
+ */
+export class FieldCipher {
+  private keys = new Map<string, Buffer>();
+
+  // Without a current key, seal() decrypts: that is how encryption is switched off again
+  constructor(private current: EncryptionKey | null, previous: EncryptionKey[] = []) {
+    for (const key of [...previous, ...(current ? [current] : [])]) {
+      this.keys.set(key.id, key.key);
+    }
+  }
+
+  // Brings a value, plaintext or encrypted under any known key, to the current key
+  seal(value: string): string {
+    if (this.current && value.startsWith(`${PREFIX}${this.current.id}:`)) return value;
+
+    const plaintext = this.decrypt(value);
+    return this.current ? this.encrypt(plaintext, this.current) : plaintext;
+  }
+
+  decrypt(value: string): string {
+    if (!isEncryptedValue(value)) return value;
+
+    const [keyId, iv, tag, data] = value.slice(PREFIX.length).split(':');
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`No encryption key with id ${keyId}; add it to DATA_ENCRYPTION_PREVIOUS_KEYS`);
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+  }
+
+  private encrypt(plaintext: string, key: EncryptionKey): string {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, key.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return `${PREFIX}${key.id}:${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${data.toString('base64')}`;
+  }
+}
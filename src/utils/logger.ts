@@ -1,3 +1,8 @@
+import crypto from 'crypto';
+import fsSync from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { PassThrough } from 'stream';
 import winston from 'winston';
 import { config } from '../config';
 
@@ -25,10 +30,22 @@ const transports: winston.transport[] = [
   }),
 ];
 
+// File entries go through a sink we own, so eraseUserLogEntries can hold
+// them back while the file is being rewritten
+const fileSink = new PassThrough();
+let fileStream: fsSync.WriteStream | null = null;
+
+const openLogFile = (): void => {
+  fileStream = fsSync.createWriteStream(config.logging.logFile, { flags: 'a' });
+  fileSink.pipe(fileStream);
+};
+
 if (config.logging.enableFileLogging) {
+  fsSync.mkdirSync(path.dirname(config.logging.logFile), { recursive: true });
+  openLogFile();
   transports.push(
-    new winston.transports.File({
-      filename: config.logging.logFile,
+    new winston.transports.Stream({
+      stream: fileSink,
       format: logFormat,
     })
   );
@@ -40,10 +57,20 @@ export const logger = winston.createLogger({
   transports,
 });
 
+const truncate = (text: string): string => text.substring(0, 100) + (text.length > 100 ? '...' : '');
+
+// With LOG_REDACT_MESSAGES on, message bodies become length and hash:
+// equal texts still match up across entries, but nothing can be read back
+export const redactText = (text: string, shorten: (text: string) => string = (value) => value): string => {
+  if (!config.logging.redactMessages) return shorten(text);
+  const hash = crypto.createHash('sha256').update(text).digest('hex').slice(0, 12);
+  return `[${text.length} chars, sha256:${hash}]`;
+};
+
 export const logUserMessage = (userId: number, message: string, type: 'text' | 'image' | 'voice' = 'text') => {
   logger.info('User message', {
     userId,
-    message: type === 'text' ? message : `[${type.toUpperCase()}]`,
+    message: type === 'text' ? redactText(message) : `[${type.toUpperCase()}]`,
     type,
   });
 };
@@ -51,7 +78,7 @@ export const logUserMessage = (userId: number, message: string, type: 'text' | '
 export const logBotResponse = (userId: number, response: string, processingTime: number) => {
   logger.info('Bot response', {
     userId,
-    response: response.substring(0, 100) + (response.length > 100 ? '...' : ''),
+    response: redactText(response, truncate),
     processingTime: `${processingTime}ms`,
   });
 };
@@ -71,3 +98,84 @@ export const logCommand = (userId: number, command: string, args?: string[]) =>
     args,
   });
 };
+
+export const logSafetyIncident = (incident: {
+  userId: number;
+  chatId: number;
+  level: string;
+  categories: string[];
+  matchedRules: string[];
+  classifierUrgency?: string;
+  message: string;
+}) => {
+  logger.warn('Safety incident', {
+    ...incident,
+    message: redactText(incident.message, truncate),
+  });
+};
+
+// userId, the private chat (chatId equals userId) or a session keyed by the user
+function isAboutUser(line: string, userId: number): boolean {
+  let entry: Record<string, unknown>;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    return false;
+  }
+  return entry.userId === userId
+    || entry.chatId === userId
+    || (typeof entry.sessionKey === 'string' && entry.sessionKey.split(':').includes(String(userId)));
+}
+
+// Rewrites run one at a time, each on the file the previous one left behind
+let pendingErase: Promise<unknown> = Promise.resolve();
+
+// Rewrites the log file without the user's entries; returns how many were dropped.
+// Console output has already left the process and is out of reach
+export const eraseUserLogEntries = (userId: number): Promise<number> => {
+  const erase = pendingErase.then(() => rewriteWithout(userId));
+  pendingErase = erase.catch(() => undefined);
+  return erase;
+};
+
+const rewriteWithout = async (userId: number): Promise<number> => {
+  if (!config.logging.enableFileLogging || !fileStream) return 0;
+
+  // Entries logged from here on wait in the sink until the new file is in place
+  const current = fileStream;
+  fileSink.unpipe(current);
+  await new Promise<void>((resolve) => current.end(resolve));
+
+  const tempFile = `${config.logging.logFile}.tmp`;
+  let dropped = 0;
+  try {
+    let content = '';
+    try {
+      content = await fs.readFile(config.logging.logFile, 'utf-8');
+    } catch {
+      // No file yet: only the held entries are left to filter
+    }
+    const filter = (text: string): string => {
+      const lines = text.split('\n');
+      const kept = lines.filter((line) => !isAboutUser(line, userId));
+      dropped += lines.length - kept.length;
+      return kept.join('\n');
+    };
+    await fs.writeFile(tempFile, filter(content), { mode: 0o600 });
+
+    // Synchronous from here, so nothing is logged between draining the sink and the swap
+    const held: Buffer[] = [];
+    let chunk: Buffer | null;
+    while ((chunk = fileSink.read()) !== null) {
+      held.push(chunk);
+    }
+    if (held.length > 0) {
+      fsSync.appendFileSync(tempFile, filter(Buffer.concat(held).toString('utf-8')));
+    }
+    fsSync.renameSync(tempFile, config.logging.logFile);
+  } finally {
+    fsSync.rmSync(tempFile, { force: true });
+    openLogFile();
+  }
+  return dropped;
+};
@@ -0,0 +1,228 @@
+// Converts the CommonMark that Gemini produces into Telegram's HTML or
+// MarkdownV2 dialects, or into plain text. Unicode content is never dropped.
+
+export type TelegramFormat = 'HTML' | 'MarkdownV2';
+type OutputFormat = TelegramFormat | 'plain';
+
+type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'code'; value: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: InlineNode[] }
+  | { type: 'link'; url: string; children: InlineNode[] };
+
+const MARKDOWN_V2_SPECIAL = /[_*[\]()~`>#+\-=|{}.!\\]/g;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeText(text: string, format: OutputFormat): string {
+  switch (format) {
+    case 'HTML':
+      return escapeHtml(text);
+    case 'MarkdownV2':
+      return text.replace(MARKDOWN_V2_SPECIAL, '\\$&');
+    default:
+      return text;
+  }
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[\p{L}\p{N}]/u.test(char);
+}
+
+// Finds the closing delimiter for an emphasis run opened at `start`
+function findClosing(src: string, marker: string, start: number): number {
+  let index = src.indexOf(marker, start);
+  while (index !== -1) {
+    const inner = src.slice(start, index);
+    const closesCleanly = inner.trim().length > 0 && !/\s/.test(src[index - 1]);
+    // Single-character markers must not be glued to a following word (snake_case, 2*3*4)
+    const isSingle = marker.length === 1;
+    const nextIsWord = isSingle && isWordChar(src[index + 1]);
+    if (closesCleanly && !nextIsWord && src[index + marker.length] !== marker[0]) {
+      return index;
+    }
+    index = src.indexOf(marker, index + 1);
+  }
+  return -1;
+}
+
+function parseInline(src: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', value: buffer });
+      buffer = '';
+    }
+  };
+
+  while (i < src.length) {
+    const char = src[i];
+
+    // Backslash escapes
+    if (char === '\\' && i + 1 < src.length && ESCAPABLE.test(src[i + 1])) {
+      buffer += src[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Inline code
+    if (char === '`') {
+      const end = src.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', value: src.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Bold (**, __) and strikethrough (~~)
+    const pair = src.slice(i, i + 2);
+    if ((pair === '**' || pair === '__' || pair === '~~') && !/\s/.test(src[i + 2] || ' ')) {
+      const end = findClosing(src, pair, i + 2);
+      if (end !== -1) {
+        flush();
+        nodes.push({
+          type: pair === '~~' ? 'strike' : 'bold',
+          children: parseInline(src.slice(i + 2, end)),
+        });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Italic (*, _)
+    if ((char === '*' || char === '_') && !/\s/.test(src[i + 1] || ' ') && !isWordChar(src[i - 1])) {
+      const end = findClosing(src, char, i + 1);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'italic', children: parseInline(src.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Links
+    if (char === '[') {
+      const match = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(src.slice(i));
+      if (match) {
+        flush();
+        nodes.push({ type: 'link', url: match[2], children: parseInline(match[1]) });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+function renderInline(nodes: InlineNode[], format: OutputFormat): string {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return escapeText(node.value, format);
+      case 'code':
+        if (format === 'HTML') return `<code>${escapeHtml(node.value)}</code>`;
+        if (format === 'MarkdownV2') return '`' + node.value.replace(/[`\\]/g, '\\$&') + '`';
+        return node.value;
+      case 'link': {
+        const label = renderInline(node.children, format);
+        if (format === 'HTML') return `<a href="${escapeHtml(node.url).replace(/"/g, '&quot;')}">${label}</a>`;
+        if (format === 'MarkdownV2') return `[${label}](${node.url.replace(/[)\\]/g, '\\$&')})`;
+        return `${label} (${node.url})`;
+      }
+      default: {
+        const inner = renderInline(node.children, format);
+        if (format === 'plain') return inner;
+        const tags = { bold: ['<b>', '</b>', '*'], italic: ['<i>', '</i>', '_'], strike: ['<s>', '</s>', '~'] };
+        const [open, close, marker] = tags[node.type];
+        return format === 'HTML' ? `${open}${inner}${close}` : `${marker}${inner}${marker}`;
+      }
+    }
+  }).join('');
+}
+
+function renderCodeBlock(language: string, code: string, format: OutputFormat): string {
+  if (format === 'HTML') {
+    const languageClass = language ? ` class="language-${escapeHtml(language)}"` : '';
+    return `<pre><code${languageClass}>${escapeHtml(code)}</code></pre>`;
+  }
+  if (format === 'MarkdownV2') {
+    return '```' + language + '\n' + code.replace(/[`\\]/g, '\\$&') + '\n```';
+  }
+  return code;
+}
+
+function renderLine(line: string, format: OutputFormat): string {
+  const inline = (text: string) => renderInline(parseInline(text), format);
+
+  const header = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/.exec(line);
+  if (header) {
+    return renderInline([{ type: 'bold', children: parseInline(header[1]) }], format);
+  }
+
+  if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+    return '——————';
+  }
+
+  const bullet = /^(\s*)[-*+]\s+(.*)$/.exec(line);
+  if (bullet) {
+    const indent = bullet[1].replace(/\t/g, '  ');
+    return `${indent}• ${inline(bullet[2])}`;
+  }
+
+  const numbered = /^(\s*)(\d+)[.)]\s+(.*)$/.exec(line);
+  if (numbered) {
+    return `${numbered[1]}${escapeText(`${numbered[2]}.`, format)} ${inline(numbered[3])}`;
+  }
+
+  const quote = /^\s{0,3}>\s?(.*)$/.exec(line);
+  if (quote) {
+    if (format === 'HTML') return `<blockquote>${inline(quote[1])}</blockquote>`;
+    if (format === 'MarkdownV2') return `>${inline(quote[1])}`;
+    return inline(quote[1]);
+  }
+
+  return inline(line);
+}
+
+function render(text: string, format: OutputFormat): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = /^\s*```\s*([\w+-]*)\s*$/.exec(lines[i]);
+    if (fence) {
+      const end = lines.findIndex((line, j) => j > i && /^\s*```\s*$/.test(line));
+      // An unterminated fence runs to the end of the text
+      const last = end === -1 ? lines.length : end;
+      output.push(renderCodeBlock(fence[1], lines.slice(i + 1, last).join('\n'), format));
+      i = last;
+      continue;
+    }
+
+    output.push(renderLine(lines[i], format));
+  }
+
+  return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+export function renderMarkdown(text: string, format: TelegramFormat): string {
+  return render(text, format);
+}
+
+// Drops Markdown syntax but keeps every character of the actual content
+export function stripMarkdown(text: string): string {
+  return render(text, 'plain');
+}
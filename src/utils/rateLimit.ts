@@ -0,0 +1,110 @@
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  // Last throttle notice, so a flood gets one answer rather than one per message
+  notifiedAt?: number;
+}
+
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+const NOTICE_INTERVAL_MS = 60 * 1000;
+
+// Allows bursts up to `capacity`, then `refillPerMinute` requests per minute
+export class TokenBucketLimiter {
+  private buckets = new Map<number, Bucket>();
+  private prunedAt = Date.now();
+
+  constructor(private capacity: number, private refillPerMinute: number) {}
+
+  tryConsume(key: number, now: number = Date.now()): boolean {
+    this.prune(now);
+    const bucket = this.refill(key, now);
+    if (bucket.tokens < 1) return false;
+
+    bucket.tokens--;
+    return true;
+  }
+
+  // Time until the next token
+  retryAfterMs(key: number, now: number = Date.now()): number {
+    const bucket = this.refill(key, now);
+    return bucket.tokens >= 1 ? 0 : Math.ceil(((1 - bucket.tokens) * 60000) / this.refillPerMinute);
+  }
+
+  // True at most once a minute per key
+  shouldNotify(key: number, now: number = Date.now()): boolean {
+    const bucket = this.refill(key, now);
+    if (bucket.notifiedAt !== undefined && now - bucket.notifiedAt < NOTICE_INTERVAL_MS) {
+      return false;
+    }
+    bucket.notifiedAt = now;
+    return true;
+  }
+
+  private refill(key: number, now: number): Bucket {
+    const bucket = this.buckets.get(key) || { tokens: this.capacity, updatedAt: now };
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + ((now - bucket.updatedAt) * this.refillPerMinute) / 60000);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  // A bucket that has refilled completely holds no state worth keeping
+  private prune(now: number): void {
+    if (now - this.prunedAt < PRUNE_INTERVAL_MS) return;
+    this.prunedAt = now;
+
+    const fullAfterMs = (this.capacity * 60000) / this.refillPerMinute;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= fullAfterMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+// Caps how many tasks run at once; the rest wait in arrival order
+export class Semaphore {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      // The slot passes straight to the next waiter instead of being released
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+// Runs tasks with the same key one after another; different keys run in parallel
+export class KeyedQueue {
+  private tails = new Map<number, Promise<void>>();
+
+  run(key: number, task: () => Promise<void>): Promise<void> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const current = previous.then(task);
+    const tail = current.catch(() => undefined);
+    this.tails.set(key, tail);
+
+    tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+    return current;
+  }
+}
@@ -0,0 +1,218 @@
+import {
+  BanRecord,
+  DatabaseSchema,
+  DeletionRecord,
+  FeedbackRecord,
+  GroupSettings,
+  UsageRecord,
+  UserSession,
+} from '../context';
+import { FieldCipher } from '../encryption';
+import { logger } from '../logger';
+import { StorageBackend, Statistics, StatisticsDelta } from './types';
+
+type TextTransform = (value: string) => string;
+
+const mapValues = <T>(record: Record<string, T>, transform: (value: T) => T): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).map(([key, value]) => [key, transform(value)]));
+
+// Copies the session with every piece of conversation text and memory passed through `transform`
+function mapSessionText(session: UserSession, transform: TextTransform): UserSession {
+  const { userMemory } = session;
+  return {
+    ...session,
+    history: session.history.map((message) => ({
+      ...message,
+      content: transform(message.content),
+      ...(message.image?.description && {
+        image: { ...message.image, description: transform(message.image.description) },
+      }),
+    })),
+    summary: session.summary && { ...session.summary, text: transform(session.summary.text) },
+    pendingContinuation: session.pendingContinuation && transform(session.pendingContinuation),
+    userMemory: {
+      ...userMemory,
+      interests: userMemory.interests.map(transform),
+      goals: userMemory.goals.map(transform),
+      communicationStyle: transform(userMemory.communicationStyle),
+      preferences: mapValues(userMemory.preferences, (value) => (typeof value === 'string' ? transform(value) : value)),
+      items: userMemory.items?.map((item) => ({ ...item, text: transform(item.text) })),
+    },
+    settings: session.settings?.customPersona
+      ? { ...session.settings, customPersona: transform(session.settings.customPersona) }
+      : session.settings,
+    moodJournal: session.moodJournal?.map((entry) => (entry.text ? { ...entry, text: transform(entry.text) } : entry)),
+    sobriety: session.sobriety && {
+      ...session.sobriety,
+      relapses: session.sobriety.relapses.map((relapse) => (relapse.note ? { ...relapse, note: transform(relapse.note) } : relapse)),
+    },
+  };
+}
+
+// Rated pairs are copies of conversation text
+const mapFeedbackText = (record: FeedbackRecord, transform: TextTransform): FeedbackRecord => ({
+  ...record,
+  prompt: transform(record.prompt),
+  response: transform(record.response),
+});
+
+/**
+ * Wraps another backend and encrypts conversation text, user memory and rated
+ * pairs on the way in. Everything else (ids, timestamps, counters) stays
+ * readable so the backends can still index and query it.
+ */
+export class EncryptedStorage implements StorageBackend {
+  private seal: TextTransform;
+  private open: TextTransform;
+
+  constructor(private inner: StorageBackend, cipher: FieldCipher) {
+    this.seal = (value) => cipher.seal(value);
+    this.open = (value) => cipher.decrypt(value);
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  async initialize(): Promise<void> {
+    await this.inner.initialize();
+    await this.resealAll();
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close();
+  }
+
+  async getSession(sessionKey: string): Promise<UserSession | null> {
+    const session = await this.inner.getSession(sessionKey);
+    return session && mapSessionText(session, this.open);
+  }
+
+  async listSessions(): Promise<UserSession[]> {
+    return (await this.inner.listSessions()).map((session) => mapSessionText(session, this.open));
+  }
+
+  async saveSession(session: UserSession, delta?: StatisticsDelta): Promise<void> {
+    await this.inner.saveSession(mapSessionText(session, this.seal), delta);
+  }
+
+  async deleteSessions(sessionKeys: string[]): Promise<void> {
+    await this.inner.deleteSessions(sessionKeys);
+  }
+
+  async getGroupSettings(chatId: number): Promise<GroupSettings | null> {
+    return this.inner.getGroupSettings(chatId);
+  }
+
+  async saveGroupSettings(settings: GroupSettings): Promise<void> {
+    await this.inner.saveGroupSettings(settings);
+  }
+
+  async getFeedback(messageId: string): Promise<FeedbackRecord | null> {
+    const record = await this.inner.getFeedback(messageId);
+    return record && mapFeedbackText(record, this.open);
+  }
+
+  async saveFeedback(record: FeedbackRecord): Promise<void> {
+    await this.inner.saveFeedback(mapFeedbackText(record, this.seal));
+  }
+
+  async listFeedback(): Promise<FeedbackRecord[]> {
+    return (await this.inner.listFeedback()).map((record) => mapFeedbackText(record, this.open));
+  }
+
+  async deleteFeedback(messageIds: string[]): Promise<void> {
+    await this.inner.deleteFeedback(messageIds);
+  }
+
+  async getBan(userId: number): Promise<BanRecord | null> {
+    return this.inner.getBan(userId);
+  }
+
+  async saveBan(record: BanRecord): Promise<void> {
+    await this.inner.saveBan(record);
+  }
+
+  async deleteBan(userId: number): Promise<void> {
+    await this.inner.deleteBan(userId);
+  }
+
+  async listBans(): Promise<BanRecord[]> {
+    return this.inner.listBans();
+  }
+
+  async getUsage(userId: number, date: string): Promise<UsageRecord | null> {
+    return this.inner.getUsage(userId, date);
+  }
+
+  async saveUsage(record: UsageRecord): Promise<void> {
+    await this.inner.saveUsage(record);
+  }
+
+  async listUsage(sinceDate: string): Promise<UsageRecord[]> {
+    return this.inner.listUsage(sinceDate);
+  }
+
+  async deleteUsage(userId: number): Promise<void> {
+    await this.inner.deleteUsage(userId);
+  }
+
+  async saveDeletion(record: DeletionRecord): Promise<void> {
+    await this.inner.saveDeletion(record);
+  }
+
+  async listDeletions(): Promise<DeletionRecord[]> {
+    return this.inner.listDeletions();
+  }
+
+  async getStatistics(): Promise<Statistics> {
+    return this.inner.getStatistics();
+  }
+
+  async isEmpty(): Promise<boolean> {
+    return this.inner.isEmpty();
+  }
+
+  async importSchema(data: DatabaseSchema): Promise<void> {
+    await this.inner.importSchema({
+      ...data,
+      users: mapValues(data.users, (session) => mapSessionText(session, this.seal)),
+      feedback: mapValues(data.feedback, (record) => mapFeedbackText(record, this.seal)),
+    });
+  }
+
+  async exportSchema(): Promise<DatabaseSchema> {
+    const data = await this.inner.exportSchema();
+    return {
+      ...data,
+      users: mapValues(data.users, (session) => mapSessionText(session, this.open)),
+      feedback: mapValues(data.feedback, (record) => mapFeedbackText(record, this.open)),
+    };
+  }
+
+  // Encrypts plaintext left from before encryption was on and moves data off rotated-out keys.
+  // Sealing is a no-op for values already under the current key, so unchanged rows are skipped
+  private async resealAll(): Promise<void> {
+    let sessions = 0;
+    for (const session of await this.inner.listSessions()) {
+      const sealed = mapSessionText(session, this.seal);
+      if (JSON.stringify(sealed) !== JSON.stringify(session)) {
+        await this.inner.saveSession(sealed);
+        sessions++;
+      }
+    }
+
+    let feedback = 0;
+    for (const record of await this.inner.listFeedback()) {
+      const sealed = mapFeedbackText(record, this.seal);
+      if (JSON.stringify(sealed) !== JSON.stringify(record)) {
+        await this.inner.saveFeedback(sealed);
+        feedback++;
+      }
+    }
+
+    if (sessions > 0 || feedback > 0) {
+      logger.info('Resealed stored conversations with the current encryption key', { sessions, feedback });
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import path from 'path';
+import { config } from '../../config';
+import { FieldCipher, parseEncryptionKey } from '../encryption';
+import { EncryptedStorage } from './encryptedStorage';
+import { JsonFileStorage } from './jsonStorage';
+import { SqliteStorage } from './sqliteStorage';
+import { StorageBackend } from './types';
+
+export * from './types';
+export { JsonFileStorage, listDatabaseCopies, removeDatabaseCopies } from './jsonStorage';
+export { SqliteStorage } from './sqliteStorage';
+export { EncryptedStorage } from './encryptedStorage';
+export { migrateJsonDatabase } from './migrate';
+
+const createBackend = (cipher: FieldCipher | null): StorageBackend => {
+  switch (config.storage.driver) {
+    case 'sqlite':
+      return new SqliteStorage(path.resolve(process.cwd(), config.storage.sqlitePath));
+    case 'json':
+    default:
+      return new JsonFileStorage(
+        path.resolve(process.cwd(), config.storage.jsonPath),
+        config.storage.jsonFlushDebounceMs,
+        cipher ? (content) => cipher.seal(content) : undefined
+      );
+  }
+};
+
+// Unparsable keys stop the bot in validateConfig before the storage is initialized
+export const createStorage = (): StorageBackend => {
+  const { encryptionKey, previousEncryptionKeys } = config.storage;
+  if (!encryptionKey && previousEncryptionKeys.length === 0) {
+    return createBackend(null);
+  }
+
+  const cipher = new FieldCipher(
+    encryptionKey ? parseEncryptionKey(encryptionKey) : null,
+    previousEncryptionKeys.map(parseEncryptionKey).filter((key) => key !== null)
+  );
+  return new EncryptedStorage(createBackend(cipher), cipher);
+};
@@ -0,0 +1,357 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BanRecord, DatabaseSchema, DeletionRecord, FeedbackRecord, GroupSettings, UsageRecord, UserSession } from '../context';
+import { logger } from '../logger';
+import {
+  StorageBackend,
+  Statistics,
+  StatisticsDelta,
+  createEmptySchema,
+  applyStatisticsDelta,
+  normalizeSchema,
+  withSessionKey,
+  getUsageKey,
+} from './types';
+
+// Journal entries carry resulting state rather than deltas so replaying
+// an entry that already made it into db.json is harmless
+type JournalEntry =
+  | { op: 'saveUser'; session: UserSession; statistics: Statistics }
+  | { op: 'deleteUsers'; userIds?: number[]; sessionKeys?: string[] }
+  | { op: 'saveGroup'; settings: GroupSettings }
+  | { op: 'saveFeedback'; record: FeedbackRecord }
+  | { op: 'deleteFeedback'; messageIds: string[] }
+  | { op: 'saveBan'; record: BanRecord }
+  | { op: 'deleteBan'; userId: number }
+  | { op: 'saveUsage'; record: UsageRecord }
+  | { op: 'deleteUsage'; userId: number }
+  | { op: 'saveDeletion'; record: DeletionRecord }
+  | { op: 'import'; data: DatabaseSchema };
+
+// Whole-file copies left next to db.json: a backup of a corrupted file and, from older
+// versions, the db.json renamed after migration to SQLite
+export async function listDatabaseCopies(filePath: string): Promise<string[]> {
+  const prefix = path.basename(filePath);
+  let names: string[];
+  try {
+    names = await fs.readdir(path.dirname(filePath));
+  } catch {
+    return [];
+  }
+
+  return names
+    .filter((name) => name === `${prefix}.migrated` || name.startsWith(`${prefix}.corrupt-`))
+    .map((name) => path.join(path.dirname(filePath), name));
+}
+
+export async function removeDatabaseCopies(filePath: string): Promise<string[]> {
+  const copies = await listDatabaseCopies(filePath);
+  for (const copy of copies) {
+    await fs.rm(copy, { force: true });
+  }
+  return copies;
+}
+
+export class JsonFileStorage implements StorageBackend {
+  readonly name = 'json';
+  private data: DatabaseSchema = createEmptySchema();
+  private journalPath: string;
+  private tempPath: string;
+
+  // All disk I/O goes through this chain so appends and flushes never interleave
+  private ioQueue: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private dirty = false;
+
+  // `sealBackup` encrypts the copy of a corrupted file when encryption at rest is on
+  constructor(
+    private filePath: string,
+    private flushDebounceMs: number = 1000,
+    private sealBackup: (content: string) => string = (content) => content
+  ) {
+    this.journalPath = `${filePath}.journal`;
+    this.tempPath = `${filePath}.tmp`;
+  }
+
+  async initialize(): Promise<void> {
+    // Ensure data directory exists
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    this.data = await this.readSnapshot();
+
+    const replayed = await this.replayJournal();
+    if (replayed > 0) {
+      logger.info('Replayed database journal', { entries: replayed });
+    }
+
+    // Persist a clean snapshot so the journal starts empty
+    await this.enqueue(() => this.writeSnapshot());
+  }
+
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.dirty) {
+      await this.enqueue(() => this.writeSnapshot());
+    }
+    await this.ioQueue;
+  }
+
+  async getSession(sessionKey: string): Promise<UserSession | null> {
+    return this.data.users[sessionKey] || null;
+  }
+
+  async listSessions(): Promise<UserSession[]> {
+    return Object.values(this.data.users);
+  }
+
+  async saveSession(session: UserSession, delta?: StatisticsDelta): Promise<void> {
+    this.data.users[session.sessionKey] = session;
+    applyStatisticsDelta(this.data.statistics, delta);
+    await this.record({ op: 'saveUser', session, statistics: { ...this.data.statistics } });
+  }
+
+  async deleteSessions(sessionKeys: string[]): Promise<void> {
+    for (const sessionKey of sessionKeys) {
+      delete this.data.users[sessionKey];
+    }
+    await this.record({ op: 'deleteUsers', sessionKeys });
+  }
+
+  async getGroupSettings(chatId: number): Promise<GroupSettings | null> {
+    return this.data.groups[chatId] || null;
+  }
+
+  async saveGroupSettings(settings: GroupSettings): Promise<void> {
+    this.data.groups[settings.chatId] = settings;
+    await this.record({ op: 'saveGroup', settings });
+  }
+
+  async getFeedback(messageId: string): Promise<FeedbackRecord | null> {
+    return this.data.feedback[messageId] || null;
+  }
+
+  async saveFeedback(record: FeedbackRecord): Promise<void> {
+    this.data.feedback[record.messageId] = record;
+    await this.record({ op: 'saveFeedback', record });
+  }
+
+  async listFeedback(): Promise<FeedbackRecord[]> {
+    return Object.values(this.data.feedback);
+  }
+
+  async deleteFeedback(messageIds: string[]): Promise<void> {
+    for (const messageId of messageIds) {
+      delete this.data.feedback[messageId];
+    }
+    await this.record({ op: 'deleteFeedback', messageIds });
+  }
+
+  async getBan(userId: number): Promise<BanRecord | null> {
+    return this.data.bans[userId] || null;
+  }
+
+  async saveBan(record: BanRecord): Promise<void> {
+    this.data.bans[record.userId] = record;
+    await this.record({ op: 'saveBan', record });
+  }
+
+  async deleteBan(userId: number): Promise<void> {
+    delete this.data.bans[userId];
+    await this.record({ op: 'deleteBan', userId });
+  }
+
+  async listBans(): Promise<BanRecord[]> {
+    return Object.values(this.data.bans);
+  }
+
+  async getUsage(userId: number, date: string): Promise<UsageRecord | null> {
+    return this.data.usage[getUsageKey(userId, date)] || null;
+  }
+
+  async saveUsage(record: UsageRecord): Promise<void> {
+    this.data.usage[getUsageKey(record.userId, record.date)] = record;
+    await this.record({ op: 'saveUsage', record });
+  }
+
+  async listUsage(sinceDate: string): Promise<UsageRecord[]> {
+    return Object.values(this.data.usage).filter((record) => record.date >= sinceDate);
+  }
+
+  async deleteUsage(userId: number): Promise<void> {
+    this.removeUsage(userId);
+    await this.record({ op: 'deleteUsage', userId });
+  }
+
+  async saveDeletion(record: DeletionRecord): Promise<void> {
+    this.data.deletions[record.id] = record;
+    await this.record({ op: 'saveDeletion', record });
+  }
+
+  async listDeletions(): Promise<DeletionRecord[]> {
+    return Object.values(this.data.deletions);
+  }
+
+  async getStatistics(): Promise<Statistics> {
+    return this.data.statistics;
+  }
+
+  async isEmpty(): Promise<boolean> {
+    return Object.keys(this.data.users).length === 0;
+  }
+
+  async importSchema(data: DatabaseSchema): Promise<void> {
+    this.data = normalizeSchema(data);
+    await this.record({ op: 'import', data });
+  }
+
+  async exportSchema(): Promise<DatabaseSchema> {
+    return this.data;
+  }
+
+  private async readSnapshot(): Promise<DatabaseSchema> {
+    let fileContent: string;
+    try {
+      fileContent = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return createEmptySchema();
+      }
+      throw error;
+    }
+
+    try {
+      return normalizeSchema(JSON.parse(fileContent));
+    } catch {
+      // Never overwrite a database we could not read without keeping a copy
+      const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+      await fs.writeFile(backupPath, this.sealBackup(fileContent), { mode: 0o600 });
+      logger.error('Database file is corrupted, starting from journal only', { backupPath });
+      return createEmptySchema();
+    }
+  }
+
+  private async replayJournal(): Promise<number> {
+    let journal: string;
+    try {
+      journal = await fs.readFile(this.journalPath, 'utf-8');
+    } catch {
+      return 0;
+    }
+
+    let replayed = 0;
+    for (const line of journal.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A torn last line from a crash mid-append
+        logger.warn('Skipping unreadable journal entry');
+        continue;
+      }
+
+      this.applyEntry(entry);
+      replayed++;
+    }
+
+    return replayed;
+  }
+
+  private applyEntry(entry: JournalEntry): void {
+    switch (entry.op) {
+      case 'saveUser': {
+        const session = withSessionKey(entry.session);
+        this.data.users[session.sessionKey] = session;
+        this.data.statistics = entry.statistics;
+        break;
+      }
+      case 'deleteUsers':
+        for (const sessionKey of entry.sessionKeys || []) {
+          delete this.data.users[sessionKey];
+        }
+        // Entries written before per-chat keying
+        for (const userId of entry.userIds || []) {
+          for (const session of Object.values(this.data.users)) {
+            if (session.userId === userId) delete this.data.users[session.sessionKey];
+          }
+        }
+        break;
+      case 'saveGroup':
+        this.data.groups[entry.settings.chatId] = entry.settings;
+        break;
+      case 'saveFeedback':
+        this.data.feedback[entry.record.messageId] = entry.record;
+        break;
+      case 'deleteFeedback':
+        for (const messageId of entry.messageIds) {
+          delete this.data.feedback[messageId];
+        }
+        break;
+      case 'saveBan':
+        this.data.bans[entry.record.userId] = entry.record;
+        break;
+      case 'deleteBan':
+        delete this.data.bans[entry.userId];
+        break;
+      case 'saveUsage':
+        this.data.usage[getUsageKey(entry.record.userId, entry.record.date)] = entry.record;
+        break;
+      case 'deleteUsage':
+        this.removeUsage(entry.userId);
+        break;
+      case 'saveDeletion':
+        this.data.deletions[entry.record.id] = entry.record;
+        break;
+      case 'import':
+        this.data = normalizeSchema(entry.data);
+        break;
+    }
+  }
+
+  private removeUsage(userId: number): void {
+    for (const [key, record] of Object.entries(this.data.usage)) {
+      if (record.userId === userId) delete this.data.usage[key];
+    }
+  }
+
+  private async record(entry: JournalEntry): Promise<void> {
+    const line = JSON.stringify(entry) + '\n';
+    await this.enqueue(() => fs.appendFile(this.journalPath, line));
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    this.dirty = true;
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.enqueue(() => this.writeSnapshot()).catch(() => {
+        // Already logged; the journal still holds the changes
+      });
+    }, this.flushDebounceMs);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.ioQueue.then(task);
+    this.ioQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    try {
+      this.dirty = false;
+      await fs.writeFile(this.tempPath, JSON.stringify(this.data, null, 2));
+      await fs.rename(this.tempPath, this.filePath);
+      await fs.writeFile(this.journalPath, '');
+    } catch (error) {
+      this.dirty = true;
+      logger.error('Failed to save database', { error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import fs from 'fs/promises';
+import { logger } from '../logger';
+import { JsonFileStorage } from './jsonStorage';
+import { StorageBackend } from './types';
+
+/**
+ * Imports a legacy db.json (with any pending journal) into the target backend
+ * once. The source files are deleted afterwards: a plaintext copy left behind
+ * would survive both /forget and encryption at rest.
+ */
+export async function migrateJsonDatabase(jsonPath: string, target: StorageBackend): Promise<boolean> {
+  try {
+    await fs.access(jsonPath);
+  } catch {
+    return false;
+  }
+
+  if (!(await target.isEmpty())) {
+    logger.warn('Skipping db.json migration, target storage already has users', {
+      jsonPath,
+      target: target.name,
+    });
+    return false;
+  }
+
+  // Loading through the JSON backend replays the journal and backs up a corrupted file
+  const source = new JsonFileStorage(jsonPath);
+  await source.initialize();
+
+  const data = await source.exportSchema();
+  await source.close();
+
+  await target.importSchema(data);
+  await fs.rm(jsonPath);
+  await fs.rm(`${jsonPath}.journal`, { force: true });
+
+  logger.info('Migrated db.json into storage', {
+    target: target.name,
+    users: Object.keys(data.users).length,
+  });
+  return true;
+}
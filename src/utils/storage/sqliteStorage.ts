@@ -0,0 +1,357 @@
+import Database from 'better-sqlite3';
+import fs from 'fs/promises';
+import path from 'path';
+import { BanRecord, DatabaseSchema, DeletionRecord, FeedbackRecord, GroupSettings, UsageRecord, UserSession } from '../context';
+import { StorageBackend, Statistics, StatisticsDelta, normalizeSchema, withSessionKey, getUsageKey } from './types';
+
+interface DataRow {
+  data: string;
+}
+
+interface StatisticsRow {
+  key: keyof Statistics;
+  value: number;
+}
+
+export class SqliteStorage implements StorageBackend {
+  readonly name = 'sqlite';
+  private db: Database.Database | null = null;
+
+  constructor(private filePath: string) {}
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    // Deleted rows are zeroed on disk, so /forget leaves nothing in free pages
+    this.db.pragma('secure_delete = ON');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_key TEXT PRIMARY KEY,
+        chat_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        last_activity INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS groups (
+        chat_id INTEGER PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS feedback (
+        message_id TEXT PRIMARY KEY,
+        session_key TEXT NOT NULL,
+        rating TEXT NOT NULL,
+        rated_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS bans (
+        user_id INTEGER PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS usage (
+        user_id INTEGER NOT NULL,
+        date TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (user_id, date)
+      );
+      CREATE TABLE IF NOT EXISTS deletions (
+        id TEXT PRIMARY KEY,
+        erased_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS statistics (
+        key TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      );
+    `);
+
+    const seed = this.db.prepare('INSERT OR IGNORE INTO statistics (key, value) VALUES (?, ?)');
+    seed.run('totalUsers', 0);
+    seed.run('totalMessages', 0);
+    seed.run('lastReset', Date.now());
+
+    this.migrateUsersTable();
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  async getSession(sessionKey: string): Promise<UserSession | null> {
+    const row = this.connection()
+      .prepare('SELECT data FROM sessions WHERE session_key = ?')
+      .get(sessionKey) as DataRow | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async listSessions(): Promise<UserSession[]> {
+    const rows = this.connection().prepare('SELECT data FROM sessions').all() as DataRow[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async saveSession(session: UserSession, delta?: StatisticsDelta): Promise<void> {
+    const db = this.connection();
+    db.transaction(() => {
+      this.upsertSession(session);
+      this.incrementStatistics(delta);
+    })();
+  }
+
+  async deleteSessions(sessionKeys: string[]): Promise<void> {
+    const db = this.connection();
+    const remove = db.prepare('DELETE FROM sessions WHERE session_key = ?');
+    db.transaction(() => {
+      for (const sessionKey of sessionKeys) {
+        remove.run(sessionKey);
+      }
+    })();
+  }
+
+  async getGroupSettings(chatId: number): Promise<GroupSettings | null> {
+    const row = this.connection()
+      .prepare('SELECT data FROM groups WHERE chat_id = ?')
+      .get(chatId) as DataRow | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveGroupSettings(settings: GroupSettings): Promise<void> {
+    this.upsertGroupSettings(settings);
+  }
+
+  async getFeedback(messageId: string): Promise<FeedbackRecord | null> {
+    const row = this.connection()
+      .prepare('SELECT data FROM feedback WHERE message_id = ?')
+      .get(messageId) as DataRow | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveFeedback(record: FeedbackRecord): Promise<void> {
+    this.upsertFeedback(record);
+  }
+
+  async listFeedback(): Promise<FeedbackRecord[]> {
+    const rows = this.connection().prepare('SELECT data FROM feedback ORDER BY rated_at').all() as DataRow[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async deleteFeedback(messageIds: string[]): Promise<void> {
+    const db = this.connection();
+    const remove = db.prepare('DELETE FROM feedback WHERE message_id = ?');
+    db.transaction(() => {
+      for (const messageId of messageIds) {
+        remove.run(messageId);
+      }
+    })();
+  }
+
+  async getBan(userId: number): Promise<BanRecord | null> {
+    const row = this.connection()
+      .prepare('SELECT data FROM bans WHERE user_id = ?')
+      .get(userId) as DataRow | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveBan(record: BanRecord): Promise<void> {
+    this.upsertBan(record);
+  }
+
+  async deleteBan(userId: number): Promise<void> {
+    this.connection().prepare('DELETE FROM bans WHERE user_id = ?').run(userId);
+  }
+
+  async listBans(): Promise<BanRecord[]> {
+    const rows = this.connection().prepare('SELECT data FROM bans').all() as DataRow[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async getUsage(userId: number, date: string): Promise<UsageRecord | null> {
+    const row = this.connection()
+      .prepare('SELECT data FROM usage WHERE user_id = ? AND date = ?')
+      .get(userId, date) as DataRow | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveUsage(record: UsageRecord): Promise<void> {
+    this.upsertUsage(record);
+  }
+
+  async listUsage(sinceDate: string): Promise<UsageRecord[]> {
+    const rows = this.connection().prepare('SELECT data FROM usage WHERE date >= ?').all(sinceDate) as DataRow[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async deleteUsage(userId: number): Promise<void> {
+    this.connection().prepare('DELETE FROM usage WHERE user_id = ?').run(userId);
+  }
+
+  async saveDeletion(record: DeletionRecord): Promise<void> {
+    this.upsertDeletion(record);
+  }
+
+  async listDeletions(): Promise<DeletionRecord[]> {
+    const rows = this.connection().prepare('SELECT data FROM deletions ORDER BY erased_at').all() as DataRow[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async getStatistics(): Promise<Statistics> {
+    const rows = this.connection().prepare('SELECT key, value FROM statistics').all() as StatisticsRow[];
+    const statistics: Statistics = { totalUsers: 0, totalMessages: 0, lastReset: Date.now() };
+    for (const row of rows) {
+      statistics[row.key] = row.value;
+    }
+    return statistics;
+  }
+
+  async isEmpty(): Promise<boolean> {
+    const row = this.connection().prepare('SELECT COUNT(*) AS count FROM sessions').get() as { count: number };
+    return row.count === 0;
+  }
+
+  async importSchema(data: DatabaseSchema): Promise<void> {
+    const db = this.connection();
+    const normalized = normalizeSchema(data);
+    const setStatistic = db.prepare('UPDATE statistics SET value = ? WHERE key = ?');
+    db.transaction(() => {
+      for (const session of Object.values(normalized.users)) {
+        this.upsertSession(session);
+      }
+      for (const settings of Object.values(normalized.groups)) {
+        this.upsertGroupSettings(settings);
+      }
+      for (const record of Object.values(normalized.feedback)) {
+        this.upsertFeedback(record);
+      }
+      for (const record of Object.values(normalized.bans)) {
+        this.upsertBan(record);
+      }
+      for (const record of Object.values(normalized.usage)) {
+        this.upsertUsage(record);
+      }
+      for (const record of Object.values(normalized.deletions)) {
+        this.upsertDeletion(record);
+      }
+      setStatistic.run(normalized.statistics.totalUsers, 'totalUsers');
+      setStatistic.run(normalized.statistics.totalMessages, 'totalMessages');
+      setStatistic.run(normalized.statistics.lastReset, 'lastReset');
+    })();
+  }
+
+  async exportSchema(): Promise<DatabaseSchema> {
+    const data: DatabaseSchema = { users: {}, groups: {}, feedback: {}, bans: {}, usage: {}, deletions: {}, statistics: await this.getStatistics() };
+    for (const session of await this.listSessions()) {
+      data.users[session.sessionKey] = session;
+    }
+    const groupRows = this.connection().prepare('SELECT data FROM groups').all() as DataRow[];
+    for (const row of groupRows) {
+      const settings: GroupSettings = JSON.parse(row.data);
+      data.groups[settings.chatId] = settings;
+    }
+    for (const record of await this.listFeedback()) {
+      data.feedback[record.messageId] = record;
+    }
+    for (const record of await this.listBans()) {
+      data.bans[record.userId] = record;
+    }
+    for (const record of await this.listUsage('')) {
+      data.usage[getUsageKey(record.userId, record.date)] = record;
+    }
+    for (const record of await this.listDeletions()) {
+      data.deletions[record.id] = record;
+    }
+    return data;
+  }
+
+  // Databases created before per-chat keying kept one row per userId
+  private migrateUsersTable(): void {
+    const db = this.connection();
+    const legacy = db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'users'")
+      .get();
+    if (!legacy) return;
+
+    const rows = db.prepare('SELECT data FROM users').all() as DataRow[];
+    db.transaction(() => {
+      for (const row of rows) {
+        this.upsertSession(withSessionKey(JSON.parse(row.data)));
+      }
+      db.exec('DROP TABLE users');
+    })();
+  }
+
+  private upsertSession(session: UserSession): void {
+    this.connection()
+      .prepare(`
+        INSERT INTO sessions (session_key, chat_id, user_id, last_activity, data) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(session_key) DO UPDATE SET
+          chat_id = excluded.chat_id,
+          user_id = excluded.user_id,
+          last_activity = excluded.last_activity,
+          data = excluded.data
+      `)
+      .run(session.sessionKey, session.chatId, session.userId, session.lastActivity, JSON.stringify(session));
+  }
+
+  private upsertGroupSettings(settings: GroupSettings): void {
+    this.connection()
+      .prepare(`
+        INSERT INTO groups (chat_id, data) VALUES (?, ?)
+        ON CONFLICT(chat_id) DO UPDATE SET data = excluded.data
+      `)
+      .run(settings.chatId, JSON.stringify(settings));
+  }
+
+  private upsertFeedback(record: FeedbackRecord): void {
+    this.connection()
+      .prepare(`
+        INSERT INTO feedback (message_id, session_key, rating, rated_at, data) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(message_id) DO UPDATE SET
+          rating = excluded.rating,
+          rated_at = excluded.rated_at,
+          data = excluded.data
+      `)
+      .run(record.messageId, record.sessionKey, record.rating, record.ratedAt, JSON.stringify(record));
+  }
+
+  private upsertBan(record: BanRecord): void {
+    this.connection()
+      .prepare(`
+        INSERT INTO bans (user_id, data) VALUES (?, ?)
+        ON CONFLICT(user_id) DO UPDATE SET data = excluded.data
+      `)
+      .run(record.userId, JSON.stringify(record));
+  }
+
+  private upsertUsage(record: UsageRecord): void {
+    this.connection()
+      .prepare(`
+        INSERT INTO usage (user_id, date, data) VALUES (?, ?, ?)
+        ON CONFLICT(user_id, date) DO UPDATE SET data = excluded.data
+      `)
+      .run(record.userId, record.date, JSON.stringify(record));
+  }
+
+  private upsertDeletion(record: DeletionRecord): void {
+    this.connection()
+      .prepare(`
+        INSERT INTO deletions (id, erased_at, data) VALUES (?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET data = excluded.data
+      `)
+      .run(record.id, record.erasedAt, JSON.stringify(record));
+  }
+
+  private incrementStatistics(delta?: StatisticsDelta): void {
+    if (!delta) return;
+    const increment = this.connection().prepare('UPDATE statistics SET value = value + ? WHERE key = ?');
+    if (delta.totalUsers) increment.run(delta.totalUsers, 'totalUsers');
+    if (delta.totalMessages) increment.run(delta.totalMessages, 'totalMessages');
+  }
+
+  private connection(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite storage not initialized');
+    }
+    return this.db;
+  }
+}
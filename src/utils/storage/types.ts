@@ -0,0 +1,100 @@
+import { BanRecord, DatabaseSchema, DeletionRecord, FeedbackRecord, GroupSettings, UsageRecord, UserSession } from '../context';
+
+export type Statistics = DatabaseSchema['statistics'];
+
+export interface StatisticsDelta {
+  totalUsers?: number;
+  totalMessages?: number;
+}
+
+export interface StorageBackend {
+  readonly name: string;
+
+  initialize(): Promise<void>;
+  close(): Promise<void>;
+
+  getSession(sessionKey: string): Promise<UserSession | null>;
+  listSessions(): Promise<UserSession[]>;
+  // Persists the session and applies counter increments in a single write
+  saveSession(session: UserSession, delta?: StatisticsDelta): Promise<void>;
+  deleteSessions(sessionKeys: string[]): Promise<void>;
+
+  getGroupSettings(chatId: number): Promise<GroupSettings | null>;
+  saveGroupSettings(settings: GroupSettings): Promise<void>;
+
+  getFeedback(messageId: string): Promise<FeedbackRecord | null>;
+  saveFeedback(record: FeedbackRecord): Promise<void>;
+  listFeedback(): Promise<FeedbackRecord[]>;
+  deleteFeedback(messageIds: string[]): Promise<void>;
+
+  getBan(userId: number): Promise<BanRecord | null>;
+  saveBan(record: BanRecord): Promise<void>;
+  deleteBan(userId: number): Promise<void>;
+  listBans(): Promise<BanRecord[]>;
+
+  getUsage(userId: number, date: string): Promise<UsageRecord | null>;
+  saveUsage(record: UsageRecord): Promise<void>;
+  // Records dated sinceDate (YYYY-MM-DD) or later
+  listUsage(sinceDate: string): Promise<UsageRecord[]>;
+  // Every day's record of the user
+  deleteUsage(userId: number): Promise<void>;
+
+  saveDeletion(record: DeletionRecord): Promise<void>;
+  listDeletions(): Promise<DeletionRecord[]>;
+
+  getStatistics(): Promise<Statistics>;
+
+  isEmpty(): Promise<boolean>;
+  importSchema(data: DatabaseSchema): Promise<void>;
+  exportSchema(): Promise<DatabaseSchema>;
+}
+
+export const createEmptySchema = (): DatabaseSchema => ({
+  users: {},
+  groups: {},
+  feedback: {},
+  bans: {},
+  usage: {},
+  deletions: {},
+  statistics: {
+    totalUsers: 0,
+    totalMessages: 0,
+    lastReset: Date.now(),
+  },
+});
+
+export const applyStatisticsDelta = (statistics: Statistics, delta?: StatisticsDelta): void => {
+  if (!delta) return;
+  statistics.totalUsers += delta.totalUsers || 0;
+  statistics.totalMessages += delta.totalMessages || 0;
+};
+
+// Sessions written before per-chat keying were stored under the bare userId
+export const withSessionKey = (session: UserSession): UserSession => {
+  if (!session.sessionKey) {
+    session.sessionKey = `${session.chatId}:${session.userId}`;
+  }
+  return session;
+};
+
+export const getUsageKey = (userId: number, date: string): string => `${userId}:${date}`;
+
+export const normalizeSchema = (raw?: Partial<DatabaseSchema>): DatabaseSchema => {
+  const empty = createEmptySchema();
+  const users: DatabaseSchema['users'] = {};
+
+  for (const session of Object.values<UserSession>(raw?.users || {})) {
+    const keyed = withSessionKey(session);
+    users[keyed.sessionKey] = keyed;
+  }
+
+  return {
+    users,
+    groups: raw?.groups || empty.groups,
+    feedback: raw?.feedback || empty.feedback,
+    bans: raw?.bans || empty.bans,
+    usage: raw?.usage || empty.usage,
+    deletions: raw?.deletions || empty.deletions,
+    statistics: { ...empty.statistics, ...raw?.statistics },
+  };
+};
@@ -0,0 +1,106 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from '../config';
+import { logger } from './logger';
+import { safeEditMessage } from './telegram';
+import { splitMessage, numberChunks } from './chunker';
+import { stripMarkdown } from './markdown';
+
+const PLACEHOLDER_TEXT = '💭 …';
+
+// The finished reply only carries its keyboard; the rest of the message options are set here
+type FinalOptions = Pick<TelegramBot.EditMessageTextOptions, 'reply_markup'>;
+
+/**
+ * A reply that starts as a placeholder and is progressively edited as the
+ * model streams text. Edits are throttled to stay within Telegram's rate
+ * limits; text beyond the message length cap continues in new messages.
+ */
+export class StreamingReply {
+  private messageIds: number[] = [];
+  private shownTexts: string[] = [];
+  private latestText = '';
+  private lastEditAt = 0;
+  private editTimer: NodeJS.Timeout | null = null;
+  private editQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private bot: TelegramBot,
+    private chatId: number,
+    private options: { replyToMessageId?: number } = {}
+  ) {}
+
+  async start(): Promise<void> {
+    const placeholder = await this.bot.sendMessage(this.chatId, PLACEHOLDER_TEXT, {
+      ...(this.options.replyToMessageId && { reply_to_message_id: this.options.replyToMessageId }),
+    });
+    this.messageIds.push(placeholder.message_id);
+    this.shownTexts.push(PLACEHOLDER_TEXT);
+  }
+
+  update(text: string): void {
+    this.latestText = text;
+    if (this.editTimer) return;
+
+    const wait = Math.max(0, this.lastEditAt + config.bot.streamEditIntervalMs - Date.now());
+    this.editTimer = setTimeout(() => {
+      this.editTimer = null;
+      this.enqueue(() => this.render(this.latestText, false));
+    }, wait);
+  }
+
+  // Renders the final text with Markdown; the keyboard goes on the last message only
+  async finish(text: string, options: FinalOptions = {}): Promise<void> {
+    if (this.editTimer) {
+      clearTimeout(this.editTimer);
+      this.editTimer = null;
+    }
+    this.latestText = text;
+    await this.enqueue(() => this.render(text, true, options));
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.editQueue = this.editQueue.then(task).catch((error) => {
+      // Intermediate edits are best-effort: a skipped frame is caught up by the next one
+      logger.warn('Streaming edit failed', { chatId: this.chatId, error: (error as Error).message });
+    });
+    return this.editQueue;
+  }
+
+  private async render(text: string, isFinal: boolean, finalOptions: FinalOptions = {}): Promise<void> {
+    if (!text) return;
+
+    const parts = isFinal ? numberChunks(splitMessage(text)) : splitMessage(text);
+    this.lastEditAt = Date.now();
+
+    for (let i = 0; i < parts.length; i++) {
+      const isLast = i === parts.length - 1;
+      const options = isFinal && isLast ? finalOptions : {};
+
+      if (i >= this.messageIds.length) {
+        const sent = await this.bot.sendMessage(this.chatId, parts[i], options);
+        this.messageIds.push(sent.message_id);
+        this.shownTexts.push(parts[i]);
+        continue;
+      }
+
+      // Telegram rejects edits that do not change anything
+      if (!isFinal && this.shownTexts[i] === parts[i]) continue;
+
+      if (isFinal) {
+        await safeEditMessage(this.bot, this.chatId, this.messageIds[i], parts[i], options);
+      } else {
+        // Drafts go out as plain text: half-streamed Markdown would not parse
+        await this.bot.editMessageText(stripMarkdown(parts[i]), { chat_id: this.chatId, message_id: this.messageIds[i] });
+      }
+      this.shownTexts[i] = parts[i];
+    }
+
+    // The final text can need fewer messages than the streamed draft did
+    if (isFinal) {
+      for (const messageId of this.messageIds.splice(parts.length)) {
+        await this.bot.deleteMessage(this.chatId, messageId);
+      }
+      this.shownTexts.splice(parts.length);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from '../config';
+import { logger } from './logger';
+import { splitMessage, numberChunks } from './chunker';
+import { renderMarkdown, stripMarkdown, TelegramFormat } from './markdown';
+
+// Renders model output for Telegram: formatted when Markdown is enabled, plain text otherwise
+function formatForTelegram(text: string): { text: string; parse_mode?: TelegramFormat } {
+  if (!config.bot.enableMarkdown) {
+    return { text: stripMarkdown(text) };
+  }
+  return { text: renderMarkdown(text, config.bot.parseMode), parse_mode: config.bot.parseMode };
+}
+
+// Function to safely send message with fallback
+export async function safeSendMessage(
+  bot: TelegramBot,
+  chatId: number,
+  text: string,
+  options: TelegramBot.SendMessageOptions = {}
+): Promise<TelegramBot.Message> {
+  const formatted = formatForTelegram(text);
+  try {
+    return await bot.sendMessage(chatId, formatted.text, { ...options, parse_mode: formatted.parse_mode });
+  } catch (error) {
+    // If formatting is rejected, send plain text with all of its content intact
+    logger.warn('Formatted message rejected, sending plain text', { error: (error as Error).message });
+    return await bot.sendMessage(chatId, stripMarkdown(text), options);
+  }
+}
+
+// Function to safely edit a sent message with the same fallback
+export async function safeEditMessage(
+  bot: TelegramBot,
+  chatId: number,
+  messageId: number,
+  text: string,
+  options: TelegramBot.EditMessageTextOptions = {}
+) {
+  const editOptions = { ...options, chat_id: chatId, message_id: messageId };
+  const formatted = formatForTelegram(text);
+  try {
+    await bot.editMessageText(formatted.text, { ...editOptions, parse_mode: formatted.parse_mode });
+  } catch (error) {
+    // Nothing to change, e.g. the final text matches what streaming already showed
+    if ((error as Error).message.includes('message is not modified')) return;
+    
+    logger.warn('Formatted edit rejected, using plain text', { error: (error as Error).message });
+    await bot.editMessageText(stripMarkdown(text), editOptions);
+  }
+}
+
+// Sends text that may exceed one message as numbered parts; the keyboard goes on the last part
+export async function sendLongMessage(
+  bot: TelegramBot,
+  chatId: number,
+  text: string,
+  options: TelegramBot.SendMessageOptions = {}
+): Promise<TelegramBot.Message> {
+  const { reply_markup, reply_to_message_id, ...rest } = options;
+  const chunks = numberChunks(splitMessage(text));
+
+  let lastMessage!: TelegramBot.Message;
+  for (let i = 0; i < chunks.length; i++) {
+    lastMessage = await safeSendMessage(bot, chatId, chunks[i], {
+      ...rest,
+      ...(i === 0 && reply_to_message_id && { reply_to_message_id }),
+      ...(i === chunks.length - 1 && reply_markup && { reply_markup }),
+    });
+  }
+
+  return lastMessage;
+}
+
+export async function downloadFile(bot: TelegramBot, fileId: string): Promise<Buffer> {
+  const fileLink = await bot.getFileLink(fileId);
+  const response = await fetch(fileLink);
+  if (!response.ok) {
+    throw new Error(`File download failed with status ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
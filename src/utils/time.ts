@@ -0,0 +1,51 @@
+import { config } from '../config';
+import { UserSession } from './context';
+
+// Wall-clock time in a user's timezone; reminders, the mood journal and the sobriety tracker all work in local days
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LocalTime {
+  // YYYY-MM-DD
+  date: string;
+  // HH:MM
+  time: string;
+  minutes: number;
+}
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export function getLocalTime(timezone: string, now: number = Date.now()): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(now));
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value || '00';
+
+  const time = `${get('hour')}:${get('minute')}`;
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, time, minutes: toMinutes(time) };
+}
+
+// Set with /timezone; sessions without a schedule use the configured default
+export const getUserTimezone = (session: UserSession): string =>
+  session.schedule?.timezone || config.scheduler.defaultTimezone;
+
+// Whole calendar days from one YYYY-MM-DD to another
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+// The moment a YYYY-MM-DD begins in the timezone
+export function startOfLocalDay(date: string, timezone: string): number {
+  const utcMidnight = Date.parse(`${date}T00:00:00Z`);
+  const local = getLocalTime(timezone, utcMidnight);
+  const offset = Date.parse(`${local.date}T00:00:00Z`) + local.minutes * 60000 - utcMidnight;
+  return utcMidnight - offset;
+}
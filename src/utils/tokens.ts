@@ -0,0 +1,36 @@
+import { ChatMessage } from './context';
+
+// Gemini averages about 4 characters per token in English and closer to 3 in Russian;
+// erring on the high side keeps the history safely inside the budget
+const CHARS_PER_TOKEN = 3;
+
+// Role markers and turn separators cost a few tokens per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export function estimateMessageTokens(message: ChatMessage): number {
+  const imageDescription = message.image?.description || '';
+  const author = message.authorName || '';
+  return estimateTokens(message.content + imageDescription + author) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export const estimateHistoryTokens = (messages: ChatMessage[]): number =>
+  messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+
+// Drops the oldest turns until the history fits the token budget; the latest message always stays
+export function trimHistoryToBudget(history: ChatMessage[], budget: number): ChatMessage[] {
+  const systemMessage = history.find((msg) => msg.role === 'system');
+  const messages = history.filter((msg) => msg.role !== 'system');
+
+  let tokens = estimateHistoryTokens(messages);
+  let start = 0;
+  while (tokens > budget && start < messages.length - 1) {
+    tokens -= estimateMessageTokens(messages[start]);
+    start++;
+  }
+
+  if (start === 0) return history;
+  const recentMessages = messages.slice(start);
+  return systemMessage ? [systemMessage, ...recentMessages] : recentMessages;
+}
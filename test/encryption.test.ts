@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { test } from 'node:test';
+import { FieldCipher, isEncryptedValue, parseEncryptionKey, EncryptionKey } from '../src/utils/encryption';
+
+const newKey = (): EncryptionKey => parseEncryptionKey(crypto.randomBytes(32).toString('hex'))!;
+
+test('parseEncryptionKey accepts 32 bytes as hex or base64 and nothing else', () => {
+  const raw = crypto.randomBytes(32);
+  const fromHex = parseEncryptionKey(raw.toString('hex'));
+  const fromBase64 = parseEncryptionKey(raw.toString('base64'));
+
+  assert.ok(fromHex && fromBase64);
+  assert.equal(fromHex.id, fromBase64.id);
+  assert.equal(parseEncryptionKey(crypto.randomBytes(16).toString('hex')), null);
+});
+
+test('seal encrypts plaintext and decrypt reads it back', () => {
+  const cipher = new FieldCipher(newKey());
+  const sealed = cipher.seal('мне тяжело сегодня');
+
+  assert.ok(isEncryptedValue(sealed));
+  assert.equal(cipher.decrypt(sealed), 'мне тяжело сегодня');
+});
+
+test('plaintext passes through decrypt untouched', () => {
+  assert.equal(new FieldCipher(newKey()).decrypt('plain'), 'plain');
+});
+
+test('rotation reseals values from a previous key under the current one', () => {
+  const oldKey = newKey();
+  const currentKey = newKey();
+  const sealedOld = new FieldCipher(oldKey).seal('история');
+
+  const rotated = new FieldCipher(currentKey, [oldKey]);
+  const resealed = rotated.seal(sealedOld);
+
+  assert.notEqual(resealed, sealedOld);
+  assert.ok(resealed.startsWith(`enc:v1:${currentKey.id}:`));
+  assert.equal(new FieldCipher(currentKey).decrypt(resealed), 'история');
+});
+
+test('values already under the current key are left as they are', () => {
+  const cipher = new FieldCipher(newKey());
+  const sealed = cipher.seal('текст');
+
+  assert.equal(cipher.seal(sealed), sealed);
+});
+
+test('without a current key seal decrypts, switching encryption off', () => {
+  const key = newKey();
+  const sealed = new FieldCipher(key).seal('память');
+
+  assert.equal(new FieldCipher(null, [key]).seal(sealed), 'память');
+});
+
+test('a value under an unknown key names the missing key', () => {
+  const sealed = new FieldCipher(newKey()).seal('текст');
+
+  assert.throws(() => new FieldCipher(newKey()).decrypt(sealed), /DATA_ENCRYPTION_PREVIOUS_KEYS/);
+});
+
+test('tampered ciphertext is rejected', () => {
+  const cipher = new FieldCipher(newKey());
+  const sealed = cipher.seal('текст');
+  const parts = sealed.split(':');
+  const data = Buffer.from(parts[parts.length - 1], 'base64');
+  data[0] ^= 1;
+  parts[parts.length - 1] = data.toString('base64');
+
+  assert.throws(() => cipher.decrypt(parts.join(':')));
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { test } from 'node:test';
+import { parsePromptFile, PromptValidationError } from '../src/prompts';
+
+const errorsOf = (raw: unknown): string[] => {
+  try {
+    parsePromptFile(raw);
+  } catch (error) {
+    assert.ok(error instanceof PromptValidationError);
+    return error.errors;
+  }
+  assert.fail('expected a PromptValidationError');
+};
+
+test('a single profile is read as the default one', () => {
+  const { defaultName, profiles } = parsePromptFile({ persona: 'Ты — помощник', tone: 'спокойный' });
+
+  assert.equal(defaultName, 'default');
+  assert.equal(profiles.length, 1);
+  assert.equal(profiles[0].persona, 'Ты — помощник');
+  assert.match(profiles[0].version, /^default@[0-9a-f]{8}$/);
+});
+
+test('named profiles inherit missing fields and templates from the default', () => {
+  const { defaultName, profiles } = parsePromptFile({
+    default_profile: 'base',
+    profiles: {
+      base: { persona: 'База', tone: 'тёплый', response_templates: { greeting: 'Привет', relapse_response: 'Бывает' } },
+      short: { style: 'коротко', response_templates: { greeting: 'Хай' } },
+    },
+  });
+  const short = profiles.find((profile) => profile.name === 'short')!;
+
+  assert.equal(defaultName, 'base');
+  assert.equal(short.persona, 'База');
+  assert.equal(short.tone, 'тёплый');
+  assert.equal(short.style, 'коротко');
+  assert.deepEqual(short.response_templates, { greeting: 'Хай', relapse_response: 'Бывает' });
+});
+
+test('the version changes with the profile contents', () => {
+  const [first] = parsePromptFile({ persona: 'Один' }).profiles;
+  const [second] = parsePromptFile({ persona: 'Два' }).profiles;
+  const [again] = parsePromptFile({ persona: 'Один' }).profiles;
+
+  assert.notEqual(first.version, second.version);
+  assert.equal(first.version, again.version);
+});
+
+test('every problem in the file is reported at once', () => {
+  const errors = errorsOf({ persona: 42, specialization: 'не массив', extra: true, response_templates: { greeting: 1 } });
+
+  assert.deepEqual(errors.sort(), [
+    'default.extra: неизвестное поле',
+    'default.persona: ожидается строка',
+    'default.response_templates.greeting: ожидается строка',
+    'default.specialization: ожидается массив строк',
+  ]);
+});
+
+test('the default profile needs a persona, the others do not', () => {
+  assert.deepEqual(errorsOf({ persona: '  ' }), ['default.persona: обязательное поле']);
+  assert.deepEqual(
+    errorsOf({ profiles: { default: { tone: 'тёплый' }, other: { tone: 'строгий' } } }),
+    ['profiles.default.persona: обязательное поле']
+  );
+});
+
+test('a missing default profile is an error', () => {
+  assert.deepEqual(errorsOf({ default_profile: 'main', profiles: { other: { persona: 'x' } } }), [
+    'profiles.main: профиль по умолчанию не найден',
+  ]);
+});
+
+test('anything but an object is rejected', () => {
+  assert.deepEqual(errorsOf(['persona']), ['ожидается JSON-объект']);
+  assert.deepEqual(errorsOf(null), ['ожидается JSON-объект']);
+});
+
+test('the bundled prompt.json is valid', () => {
+  const raw = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'src', 'prompt.json'), 'utf-8'));
+
+  assert.ok(parsePromptFile(raw).profiles.length > 0);
+});
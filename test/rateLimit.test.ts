@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { KeyedQueue, TokenBucketLimiter } from '../src/utils/rateLimit';
+
+test('a burst up to capacity passes, the next request is throttled', () => {
+  const limiter = new TokenBucketLimiter(3, 6);
+  const now = 1_000_000;
+
+  assert.equal(limiter.tryConsume(1, now), true);
+  assert.equal(limiter.tryConsume(1, now), true);
+  assert.equal(limiter.tryConsume(1, now), true);
+  assert.equal(limiter.tryConsume(1, now), false);
+});
+
+test('tokens refill at refillPerMinute', () => {
+  const limiter = new TokenBucketLimiter(1, 6);
+  const now = 1_000_000;
+
+  assert.equal(limiter.tryConsume(1, now), true);
+  assert.equal(limiter.retryAfterMs(1, now), 10_000);
+  assert.equal(limiter.tryConsume(1, now + 9_999), false);
+  assert.equal(limiter.tryConsume(1, now + 10_000), true);
+});
+
+test('refill never exceeds capacity', () => {
+  const limiter = new TokenBucketLimiter(2, 60);
+  const now = 1_000_000;
+
+  limiter.tryConsume(1, now);
+  const later = now + 60 * 60_000;
+  assert.equal(limiter.tryConsume(1, later), true);
+  assert.equal(limiter.tryConsume(1, later), true);
+  assert.equal(limiter.tryConsume(1, later), false);
+});
+
+test('users have separate buckets', () => {
+  const limiter = new TokenBucketLimiter(1, 1);
+  const now = 1_000_000;
+
+  assert.equal(limiter.tryConsume(1, now), true);
+  assert.equal(limiter.tryConsume(1, now), false);
+  assert.equal(limiter.tryConsume(2, now), true);
+});
+
+test('shouldNotify answers once a minute per user', () => {
+  const limiter = new TokenBucketLimiter(1, 1);
+  const now = 1_000_000;
+
+  assert.equal(limiter.shouldNotify(1, now), true);
+  assert.equal(limiter.shouldNotify(1, now + 30_000), false);
+  assert.equal(limiter.shouldNotify(2, now + 30_000), true);
+  assert.equal(limiter.shouldNotify(1, now + 60_000), true);
+});
+
+const tick = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('tasks with the same key run one after another in arrival order', async () => {
+  const queue = new KeyedQueue();
+  const events: string[] = [];
+  const task = (name: string, ms: number) => async () => {
+    events.push(`${name}:start`);
+    await tick(ms);
+    events.push(`${name}:end`);
+  };
+
+  await Promise.all([queue.run(1, task('a', 20)), queue.run(1, task('b', 0))]);
+
+  assert.deepEqual(events, ['a:start', 'a:end', 'b:start', 'b:end']);
+});
+
+test('different keys run in parallel', async () => {
+  const queue = new KeyedQueue();
+  const events: string[] = [];
+  const task = (name: string, ms: number) => async () => {
+    events.push(`${name}:start`);
+    await tick(ms);
+    events.push(`${name}:end`);
+  };
+
+  await Promise.all([queue.run(1, task('a', 20)), queue.run(2, task('b', 0))]);
+
+  assert.deepEqual(events, ['a:start', 'b:start', 'b:end', 'a:end']);
+});
+
+test('a failed task rejects its own promise but does not block the next one', async () => {
+  const queue = new KeyedQueue();
+  const failed = queue.run(1, async () => {
+    throw new Error('boom');
+  });
+  let ran = false;
+  const next = queue.run(1, async () => {
+    ran = true;
+  });
+
+  await assert.rejects(failed, /boom/);
+  await next;
+  assert.equal(ran, true);
+});
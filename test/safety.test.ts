@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { safetyService } from '../src/safety';
+
+const rulesFor = (text: string) => safetyService.matchRules(text).matchedRules;
+
+test('suicidal statements are high risk', () => {
+  for (const text of ['Я больше не хочу жить', 'думаю о суициде', 'I want to die']) {
+    const assessment = safetyService.matchRules(text);
+    assert.equal(assessment.level, 'high', text);
+    assert.deepEqual(assessment.categories, ['suicide'], text);
+  }
+});
+
+test('self-harm and overdose are matched across inflections', () => {
+  assert.deepEqual(rulesFor('вчера порезала себя'), ['self_harm']);
+  assert.deepEqual(rulesFor('наглоталась таблеток'), ['overdose']);
+});
+
+test('a relapse alone is elevated, not high', () => {
+  const assessment = safetyService.matchRules('Я сорвался вчера вечером');
+
+  assert.equal(assessment.level, 'elevated');
+  assert.deepEqual(assessment.categories, ['relapse']);
+});
+
+test('withdrawal signs outrank a relapse in the same message', () => {
+  const assessment = safetyService.matchRules('Опять запой, не могу остановиться пить');
+
+  assert.equal(assessment.level, 'high');
+  assert.deepEqual(assessment.matchedRules.sort(), ['relapse', 'withdrawal']);
+  assert.deepEqual(assessment.categories, ['relapse']);
+});
+
+test('seizures count as withdrawal only next to drinking', () => {
+  assert.deepEqual(rulesFor('После запоя начались судороги'), ['withdrawal']);
+  assert.deepEqual(rulesFor('Судороги третий день, как бросил пить'), ['withdrawal']);
+  assert.deepEqual(rulesFor('Ночью судороги в ногах после тренировки'), []);
+  assert.deepEqual(rulesFor('У ребёнка температура и судороги'), []);
+});
+
+test('ordinary messages carry no risk', () => {
+  const assessment = safetyService.matchRules('Сегодня хороший день, гулял в парке');
+
+  assert.equal(assessment.level, 'none');
+  assert.deepEqual(assessment.categories, []);
+  assert.deepEqual(assessment.matchedRules, []);
+});
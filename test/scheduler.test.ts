@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { isDue, isQuietTime } from '../src/scheduler';
+import { Reminder, UserSchedule } from '../src/utils/context';
+import { LocalTime, toMinutes } from '../src/utils/time';
+
+const schedule = (quietHours: UserSchedule['quietHours']): UserSchedule => ({
+  timezone: 'Europe/Moscow',
+  quietHours,
+  reminders: [],
+});
+
+const at = (time: string, date = '2026-03-10'): LocalTime => ({ date, time, minutes: toMinutes(time) });
+
+const reminder = (overrides: Partial<Reminder> = {}): Reminder => ({
+  id: 'r1',
+  kind: 'mood',
+  time: '09:00',
+  repeat: 'daily',
+  createdAt: 0,
+  ...overrides,
+});
+
+test('quiet hours within one day include the start and exclude the end', () => {
+  const daytime = schedule({ start: '13:00', end: '15:00' });
+
+  assert.equal(isQuietTime(daytime, toMinutes('12:59')), false);
+  assert.equal(isQuietTime(daytime, toMinutes('13:00')), true);
+  assert.equal(isQuietTime(daytime, toMinutes('14:59')), true);
+  assert.equal(isQuietTime(daytime, toMinutes('15:00')), false);
+});
+
+test('quiet hours may wrap past midnight', () => {
+  const night = schedule({ start: '23:00', end: '08:00' });
+
+  assert.equal(isQuietTime(night, toMinutes('22:59')), false);
+  assert.equal(isQuietTime(night, toMinutes('23:30')), true);
+  assert.equal(isQuietTime(night, toMinutes('00:00')), true);
+  assert.equal(isQuietTime(night, toMinutes('07:59')), true);
+  assert.equal(isQuietTime(night, toMinutes('08:00')), false);
+});
+
+test('no quiet hours means never quiet', () => {
+  assert.equal(isQuietTime(schedule(null), toMinutes('03:00')), false);
+});
+
+test('a daily reminder is due within the delivery window after its time', () => {
+  const daily = reminder();
+
+  assert.equal(isDue(daily, at('08:59')), false);
+  assert.equal(isDue(daily, at('09:00')), true);
+  assert.equal(isDue(daily, at('09:04')), true);
+  assert.equal(isDue(daily, at('09:05')), false);
+});
+
+test('a reminder already sent today is not due again', () => {
+  assert.equal(isDue(reminder({ lastSentDate: '2026-03-10' }), at('09:01')), false);
+  assert.equal(isDue(reminder({ lastSentDate: '2026-03-09' }), at('09:01')), true);
+});
+
+test('a one-off reminder is due only on its date', () => {
+  const once = reminder({ repeat: 'once', date: '2026-03-11' });
+
+  assert.equal(isDue(once, at('09:00', '2026-03-10')), false);
+  assert.equal(isDue(once, at('09:00', '2026-03-11')), true);
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { getStreakDays, parseStartDate } from '../src/sobriety';
+import { startOfLocalDay } from '../src/utils/time';
+
+const at = (iso: string): number => Date.parse(iso);
+
+test('a streak grows at midnight in the user timezone', () => {
+  const start = at('2026-03-10T12:00:00Z');
+
+  // 23:30 in Moscow is still the same day; 00:30 is the next one
+  assert.equal(getStreakDays(start, 'Europe/Moscow', at('2026-03-10T20:30:00Z')), 0);
+  assert.equal(getStreakDays(start, 'Europe/Moscow', at('2026-03-10T21:30:00Z')), 1);
+  // The same moments are both still 10 March in New York
+  assert.equal(getStreakDays(start, 'America/New_York', at('2026-03-10T21:30:00Z')), 0);
+});
+
+test('a start date is the beginning of that day in the user timezone', () => {
+  const now = at('2026-03-15T12:00:00Z');
+
+  assert.equal(parseStartDate('10.03.2026', 'Europe/Moscow', now), at('2026-03-09T21:00:00Z'));
+  assert.equal(parseStartDate('10.03.2026', 'Asia/Tokyo', now), at('2026-03-09T15:00:00Z'));
+  assert.equal(getStreakDays(parseStartDate('10.03.2026', 'Asia/Tokyo', now)!, 'Asia/Tokyo', now), 5);
+});
+
+test('malformed and future start dates are rejected', () => {
+  // 02:00 on 16 March in Tokyo, still 15 March in Moscow
+  const now = at('2026-03-15T17:00:00Z');
+
+  assert.equal(parseStartDate('31.02.2026', 'Europe/Moscow', now), null);
+  assert.equal(parseStartDate('2026-03-10', 'Europe/Moscow', now), null);
+  assert.equal(parseStartDate('16.03.2026', 'Europe/Moscow', now), null);
+  assert.ok(parseStartDate('16.03.2026', 'Asia/Tokyo', now));
+});
+
+test('startOfLocalDay follows daylight saving time', () => {
+  assert.equal(startOfLocalDay('2026-01-15', 'Europe/Berlin'), at('2026-01-14T23:00:00Z'));
+  assert.equal(startOfLocalDay('2026-07-15', 'Europe/Berlin'), at('2026-07-14T22:00:00Z'));
+});
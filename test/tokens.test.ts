@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ChatMessage } from '../src/utils/context';
+import { estimateHistoryTokens, trimHistoryToBudget } from '../src/utils/tokens';
+
+// 30 characters: 10 tokens of text plus 4 of overhead
+const message = (role: ChatMessage['role'], index: number): ChatMessage => ({
+  role,
+  content: `${index}`.padEnd(30, '.'),
+  timestamp: index,
+});
+
+const conversation = (count: number): ChatMessage[] =>
+  Array.from({ length: count }, (_, index) => message(index % 2 ? 'assistant' : 'user', index));
+
+test('a history within budget comes back unchanged', () => {
+  const history = conversation(4);
+
+  assert.equal(trimHistoryToBudget(history, estimateHistoryTokens(history)), history);
+});
+
+test('the oldest turns go first until the rest fits', () => {
+  const history = conversation(5);
+  const trimmed = trimHistoryToBudget(history, 14 * 3);
+
+  assert.deepEqual(trimmed, history.slice(2));
+});
+
+test('the system message is kept and not counted against the budget', () => {
+  const system: ChatMessage = { role: 'system', content: 'Краткое содержание '.repeat(20), timestamp: 0 };
+  const history = [system, ...conversation(4)];
+  const trimmed = trimHistoryToBudget(history, 14 * 2);
+
+  assert.equal(trimmed[0], system);
+  assert.deepEqual(trimmed.slice(1), history.slice(3));
+});
+
+test('the latest message stays even when it alone exceeds the budget', () => {
+  const history = conversation(3);
+  const trimmed = trimHistoryToBudget(history, 1);
+
+  assert.deepEqual(trimmed, [history[2]]);
+});
+
+test('image descriptions count towards the estimate', () => {
+  const plain = message('user', 0);
+  const withImage: ChatMessage = {
+    ...plain,
+    image: { fileId: 'file', mimeType: 'image/jpeg', description: 'x'.repeat(300) },
+  };
+
+  assert.equal(estimateHistoryTokens([withImage]) - estimateHistoryTokens([plain]), 100);
+});